@@ -1,5 +1,6 @@
 import { renderHook, act } from '@testing-library/react';
-import useAsync from '../useAsync';
+import useAsync, { invalidate, mutate, withSignal } from '../useAsync';
+import useNetworkStatus from '../useNetworkStatus';
 
 describe('useAsync', () => {
   beforeEach(() => {
@@ -14,7 +15,10 @@ describe('useAsync', () => {
       data: null,
       loading: false,
       error: null,
+      status: 'idle',
+      attempt: 0,
       reset: expect.any(Function),
+      cancel: expect.any(Function),
     });
   });
 
@@ -86,7 +90,7 @@ describe('useAsync', () => {
       await promise;
     });
 
-    expect(onSuccess).toHaveBeenCalledWith(mockData);
+    expect(onSuccess).toHaveBeenCalledWith(mockData, []);
   });
 
   it('should call onError callback when error occurs', async () => {
@@ -108,7 +112,7 @@ describe('useAsync', () => {
       }
     });
 
-    expect(onError).toHaveBeenCalledWith(mockError);
+    expect(onError).toHaveBeenCalledWith(mockError, []);
   });
 
   it('should execute immediately when immediate option is true', async () => {
@@ -157,7 +161,10 @@ describe('useAsync', () => {
       data: null,
       loading: false,
       error: null,
+      status: 'idle',
+      attempt: 0,
       reset: expect.any(Function),
+      cancel: expect.any(Function),
     });
   });
 
@@ -248,6 +255,59 @@ describe('useAsync', () => {
     expect(asyncFunction).toHaveBeenCalledWith('arg1', 'arg2', { key: 'value' });
   });
 
+  it('should leave default and optional parameters to the async function', async () => {
+    const pages: unknown[] = [];
+    const fetchPage = async (page = 1) => {
+      pages.push(page);
+      return page;
+    };
+    const { result } = renderHook(() => useAsync(fetchPage, { immediate: true }));
+
+    await act(async () => {
+      await Promise.resolve();
+    });
+    expect(pages).toEqual([1]);
+    expect(result.current[1].data).toBe(1);
+
+    const signals: AbortSignal[] = [];
+    const received: unknown[][] = [];
+    const search = withSignal(({ signal }) => async (query: string, page?: number) => {
+      signals.push(signal);
+      received.push([query, page]);
+    });
+    const { result: withContext } = renderHook(() => useAsync(search));
+
+    await act(async () => {
+      await withContext.current[0]('ada');
+    });
+    expect(received).toEqual([['ada', undefined]]);
+    expect(signals[0]).toBeInstanceOf(AbortSignal);
+  });
+
+  it('should run once with an inline function and inline options', async () => {
+    const fetchCount = jest.fn().mockResolvedValue(1);
+    const onSuccess = jest.fn();
+    const { result, rerender } = renderHook(() =>
+      useAsync(withSignal(() => () => fetchCount()), {
+        immediate: true,
+        retry: (failureCount: number) => failureCount < 2,
+        retryDelay: () => 0,
+        onSuccess: data => onSuccess(data),
+      })
+    );
+    const execute = result.current[0];
+
+    await act(async () => {
+      await Promise.resolve();
+    });
+    rerender();
+
+    expect(fetchCount).toHaveBeenCalledTimes(1);
+    expect(onSuccess).toHaveBeenCalledWith(1);
+    expect(result.current[1].data).toBe(1);
+    expect(result.current[0]).toBe(execute);
+  });
+
   it('should return the result from execute function', async () => {
     const mockData = { id: 1, name: 'Test' };
     const asyncFunction = jest.fn().mockResolvedValue(mockData);
@@ -264,4 +324,852 @@ describe('useAsync', () => {
 
     expect(executeResult).toEqual(mockData);
   });
-}); 
\ No newline at end of file
+
+  it('should track status through the request lifecycle', async () => {
+    const asyncFunction = jest.fn().mockResolvedValue('ok');
+    const { result } = renderHook(() => useAsync(asyncFunction));
+
+    expect(result.current[1].status).toBe('idle');
+
+    let promise: Promise<any>;
+    act(() => {
+      promise = result.current[0]();
+    });
+
+    expect(result.current[1].status).toBe('pending');
+
+    await act(async () => {
+      await promise;
+    });
+
+    expect(result.current[1].status).toBe('success');
+  });
+
+  it('should set error status when the request fails', async () => {
+    const asyncFunction = jest.fn().mockRejectedValue(new Error('boom'));
+    const { result } = renderHook(() => useAsync(asyncFunction));
+
+    await act(async () => {
+      await result.current[0]().catch(() => {});
+    });
+
+    expect(result.current[1].status).toBe('error');
+  });
+
+  it('should abort the signal passed to the previous call when re-executing', async () => {
+    const signals: AbortSignal[] = [];
+    const asyncFunction = withSignal(({ signal }) => (_id: number) => {
+      signals.push(signal);
+      return new Promise<string>(resolve => setTimeout(() => resolve('done'), 10));
+    });
+    const { result } = renderHook(() => useAsync(asyncFunction));
+
+    let promise1: Promise<any>;
+    let promise2: Promise<any>;
+    act(() => {
+      promise1 = result.current[0](1);
+    });
+    act(() => {
+      promise2 = result.current[0](2);
+    });
+
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[1].aborted).toBe(false);
+
+    await act(async () => {
+      await expect(promise1).resolves.toBeUndefined();
+      await expect(promise2).resolves.toBe('done');
+    });
+
+    expect(result.current[1].data).toBe('done');
+  });
+
+  it('should cancel the in-flight request and report cancelled status', async () => {
+    let signal: AbortSignal | undefined;
+    const asyncFunction = withSignal(context => () => {
+      signal = context.signal;
+      return new Promise(resolve => setTimeout(() => resolve('late'), 10));
+    });
+    const onSuccess = jest.fn();
+    const { result } = renderHook(() => useAsync(asyncFunction, { onSuccess }));
+
+    let promise: Promise<any>;
+    act(() => {
+      promise = result.current[0]();
+    });
+
+    act(() => {
+      result.current[1].cancel();
+    });
+
+    expect(signal?.aborted).toBe(true);
+    expect(result.current[1].status).toBe('cancelled');
+    expect(result.current[1].loading).toBe(false);
+
+    await act(async () => {
+      await expect(promise).resolves.toBeUndefined();
+    });
+
+    // A late result from a cancelled request must not overwrite state
+    expect(result.current[1].status).toBe('cancelled');
+    expect(result.current[1].data).toBe(null);
+    expect(onSuccess).not.toHaveBeenCalled();
+  });
+
+  it('should treat an AbortError from a cancelled request as cancellation, not failure', async () => {
+    const asyncFunction = withSignal(({ signal }) => () =>
+      new Promise((_, reject) => {
+        signal.addEventListener('abort', () => {
+          const error = new Error('Aborted');
+          error.name = 'AbortError';
+          reject(error);
+        });
+      })
+    );
+    const onError = jest.fn();
+    const { result } = renderHook(() => useAsync(asyncFunction, { onError }));
+
+    let promise: Promise<any>;
+    act(() => {
+      promise = result.current[0]();
+    });
+
+    await act(async () => {
+      result.current[1].cancel();
+      await expect(promise).resolves.toBeUndefined();
+    });
+
+    expect(result.current[1].status).toBe('cancelled');
+    expect(result.current[1].error).toBe(null);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  describe('shared cache', () => {
+    it('should deduplicate concurrent requests for the same key', async () => {
+      const asyncFunction = jest.fn().mockImplementation((id: number) =>
+        new Promise(resolve => setTimeout(() => resolve({ id }), 10))
+      );
+      const first = renderHook(() => useAsync(asyncFunction, { key: 'dedupe-user' }));
+      const second = renderHook(() => useAsync(asyncFunction, { key: 'dedupe-user' }));
+
+      await act(async () => {
+        await Promise.all([first.result.current[0](1), second.result.current[0](1)]);
+      });
+
+      expect(asyncFunction).toHaveBeenCalledTimes(1);
+      expect(first.result.current[1].data).toEqual({ id: 1 });
+      expect(second.result.current[1].data).toEqual({ id: 1 });
+    });
+
+    it('should key entries by the serialized arguments', async () => {
+      const asyncFunction = jest.fn().mockImplementation(async (id: number) => ({ id }));
+      const { result } = renderHook(() =>
+        useAsync(asyncFunction, { key: 'args-user', staleTime: Infinity })
+      );
+
+      await act(async () => {
+        await result.current[0](1);
+        await result.current[0](2);
+        await result.current[0](1);
+      });
+
+      expect(asyncFunction).toHaveBeenCalledTimes(2);
+      expect(result.current[1].data).toEqual({ id: 1 });
+    });
+
+    it('should serve fresh data from the cache without refetching', async () => {
+      const asyncFunction = jest.fn().mockResolvedValue('cached');
+      const { result } = renderHook(() =>
+        useAsync(asyncFunction, { key: 'fresh', staleTime: 1000 })
+      );
+
+      await act(async () => {
+        await result.current[0]();
+      });
+
+      const other = renderHook(() => useAsync(asyncFunction, { key: 'fresh', staleTime: 1000 }));
+      let value: any;
+      await act(async () => {
+        value = await other.result.current[0]();
+      });
+
+      expect(value).toBe('cached');
+      expect(other.result.current[1].status).toBe('success');
+      expect(asyncFunction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep stale data visible while revalidating', async () => {
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(0);
+      const asyncFunction = jest
+        .fn()
+        .mockResolvedValueOnce('first')
+        .mockImplementationOnce(() => new Promise(resolve => setTimeout(() => resolve('second'), 10)));
+      const { result } = renderHook(() =>
+        useAsync(asyncFunction, { key: 'stale', staleTime: 100 })
+      );
+
+      await act(async () => {
+        await result.current[0]();
+      });
+
+      nowSpy.mockReturnValue(500);
+
+      let promise: Promise<any>;
+      act(() => {
+        promise = result.current[0]();
+      });
+
+      expect(result.current[1].status).toBe('pending');
+      expect(result.current[1].data).toBe('first');
+
+      await act(async () => {
+        await promise;
+      });
+
+      expect(result.current[1].data).toBe('second');
+      expect(asyncFunction).toHaveBeenCalledTimes(2);
+      nowSpy.mockRestore();
+    });
+
+    it('should keep previous data when a revalidation fails', async () => {
+      const asyncFunction = jest
+        .fn()
+        .mockResolvedValueOnce('good')
+        .mockRejectedValueOnce(new Error('flaky'));
+      const { result } = renderHook(() => useAsync(asyncFunction, { key: 'keep-on-error' }));
+
+      await act(async () => {
+        await result.current[0]();
+      });
+      await act(async () => {
+        await result.current[0]().catch(() => {});
+      });
+
+      expect(result.current[1].status).toBe('error');
+      expect(result.current[1].data).toBe('good');
+    });
+
+    it('should push mutate() data to every mounted instance', async () => {
+      const asyncFunction = jest.fn().mockResolvedValue({ name: 'Ada' });
+      const first = renderHook(() => useAsync(asyncFunction, { key: 'profile' }));
+      const second = renderHook(() => useAsync(asyncFunction, { key: 'profile' }));
+
+      await act(async () => {
+        await first.result.current[0]();
+        await second.result.current[0]();
+      });
+
+      act(() => {
+        mutate('profile', { name: 'Grace' });
+      });
+
+      expect(first.result.current[1].data).toEqual({ name: 'Grace' });
+      expect(second.result.current[1].data).toEqual({ name: 'Grace' });
+    });
+
+    it('should settle a request detached by mutate() with the mutated data and abort it', async () => {
+      let requestSignal: AbortSignal | undefined;
+      let respond: (value: string) => void = () => {};
+      const fetchValue = withSignal(({ signal }) => () => {
+        requestSignal = signal;
+        return new Promise<string>(resolve => {
+          respond = resolve;
+        });
+      });
+      const { result } = renderHook(() => useAsync(fetchValue, { key: 'detached' }));
+
+      let promise: Promise<string | undefined>;
+      act(() => {
+        promise = result.current[0]();
+      });
+
+      let value: string | undefined;
+      await act(async () => {
+        mutate('detached', 'mutated');
+        value = await promise;
+      });
+
+      expect(requestSignal?.aborted).toBe(true);
+      expect(value).toBe('mutated');
+      expect(result.current[1].data).toBe('mutated');
+
+      // A response arriving late is ignored
+      await act(async () => {
+        respond('server-old');
+        await new Promise(resolve => setTimeout(resolve, 0));
+      });
+
+      expect(result.current[1].data).toBe('mutated');
+      expect(result.current[1].status).toBe('success');
+    });
+
+    it('should refetch mounted instances when their key is invalidated', async () => {
+      const asyncFunction = jest
+        .fn()
+        .mockResolvedValueOnce(['a'])
+        .mockResolvedValueOnce(['a', 'b']);
+      const { result } = renderHook(() =>
+        useAsync(asyncFunction, { key: 'todos', staleTime: Infinity })
+      );
+
+      await act(async () => {
+        await result.current[0]('open');
+      });
+
+      await act(async () => {
+        invalidate('todos');
+        await new Promise(resolve => setTimeout(resolve, 0));
+      });
+
+      expect(asyncFunction).toHaveBeenCalledTimes(2);
+      expect(asyncFunction).toHaveBeenLastCalledWith('open');
+      expect(result.current[1].data).toEqual(['a', 'b']);
+    });
+
+    it('should drop unused entries after cacheTime', async () => {
+      const asyncFunction = jest.fn().mockResolvedValue('value');
+      const options = { key: 'gc', staleTime: Infinity, cacheTime: 0 };
+      const first = renderHook(() => useAsync(asyncFunction, options));
+
+      await act(async () => {
+        await first.result.current[0]();
+      });
+      first.unmount();
+
+      await act(async () => {
+        await new Promise(resolve => setTimeout(resolve, 0));
+      });
+
+      const second = renderHook(() => useAsync(asyncFunction, options));
+      await act(async () => {
+        await second.result.current[0]();
+      });
+
+      expect(asyncFunction).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('retry', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.spyOn(Math, 'random').mockReturnValue(1);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+    });
+
+    it('should retry with exponential backoff and expose the attempt', async () => {
+      const asyncFunction = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('fail 1'))
+        .mockRejectedValueOnce(new Error('fail 2'))
+        .mockResolvedValueOnce('ok');
+      const onError = jest.fn();
+      const { result } = renderHook(() =>
+        useAsync(asyncFunction, { retry: 3, retryDelay: 100, onError })
+      );
+
+      let promise: Promise<any>;
+      await act(async () => {
+        promise = result.current[0]();
+      });
+
+      expect(asyncFunction).toHaveBeenCalledTimes(1);
+      expect(result.current[1].attempt).toBe(1);
+      expect(result.current[1].status).toBe('pending');
+
+      // First retry waits 100ms, the second 200ms
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(99);
+      });
+      expect(asyncFunction).toHaveBeenCalledTimes(1);
+
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(1);
+      });
+      expect(asyncFunction).toHaveBeenCalledTimes(2);
+      expect(result.current[1].attempt).toBe(2);
+
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(200);
+        await promise;
+      });
+
+      expect(asyncFunction).toHaveBeenCalledTimes(3);
+      expect(result.current[1].attempt).toBe(3);
+      expect(result.current[1].data).toBe('ok');
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it('should apply jitter within the upper half of the backoff window', async () => {
+      (Math.random as jest.Mock).mockReturnValue(0);
+      const asyncFunction = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('fail'))
+        .mockResolvedValueOnce('ok');
+      const { result } = renderHook(() => useAsync(asyncFunction, { retry: 1, retryDelay: 100 }));
+
+      await act(async () => {
+        result.current[0]();
+      });
+
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(50);
+      });
+
+      expect(asyncFunction).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fail once retries are exhausted', async () => {
+      const error = new Error('always');
+      const asyncFunction = jest.fn().mockRejectedValue(error);
+      const onError = jest.fn();
+      const { result } = renderHook(() =>
+        useAsync(asyncFunction, { retry: 2, retryDelay: 10, onError })
+      );
+
+      let promise: Promise<any>;
+      await act(async () => {
+        promise = result.current[0]();
+        promise.catch(() => {});
+        await jest.advanceTimersByTimeAsync(1000);
+      });
+
+      await expect(promise!).rejects.toBe(error);
+      expect(asyncFunction).toHaveBeenCalledTimes(3);
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(result.current[1].status).toBe('error');
+      expect(result.current[1].attempt).toBe(3);
+    });
+
+    it('should consult a retry predicate with the error', async () => {
+      const fatal = new Error('401');
+      const asyncFunction = jest.fn().mockRejectedValue(fatal);
+      const retry = jest.fn((_count: number, err: Error) => err.message !== '401');
+      const { result } = renderHook(() => useAsync(asyncFunction, { retry }));
+
+      await act(async () => {
+        await result.current[0]().catch(() => {});
+      });
+
+      expect(retry).toHaveBeenCalledWith(1, fatal);
+      expect(asyncFunction).toHaveBeenCalledTimes(1);
+      expect(result.current[1].status).toBe('error');
+    });
+
+    it('should stop retrying when cancelled during the backoff', async () => {
+      const asyncFunction = jest.fn().mockRejectedValue(new Error('fail'));
+      const { result } = renderHook(() => useAsync(asyncFunction, { retry: 5, retryDelay: 100 }));
+
+      let promise: Promise<any>;
+      await act(async () => {
+        promise = result.current[0]();
+      });
+
+      act(() => {
+        result.current[1].cancel();
+      });
+
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(10000);
+      });
+
+      await expect(promise!).resolves.toBeUndefined();
+      expect(asyncFunction).toHaveBeenCalledTimes(1);
+      expect(result.current[1].status).toBe('cancelled');
+    });
+
+    it('should stop retrying after unmount', async () => {
+      const asyncFunction = jest.fn().mockRejectedValue(new Error('fail'));
+      const { result, unmount } = renderHook(() =>
+        useAsync(asyncFunction, { retry: 5, retryDelay: 100 })
+      );
+
+      await act(async () => {
+        result.current[0]();
+      });
+
+      unmount();
+
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(10000);
+      });
+
+      expect(asyncFunction).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('concurrency', () => {
+    // Resolves with `value` after `ms`, ignoring the abort signal like a non-cooperative API
+    const delayed = (value: string, ms: number) =>
+      new Promise<string>(resolve => setTimeout(() => resolve(value), ms));
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should keep only the latest result in 'latest' mode", async () => {
+      const asyncFunction = jest.fn((value: string, ms: number) => delayed(value, ms));
+      const onSuccess = jest.fn();
+      const { result } = renderHook(() => useAsync(asyncFunction, { onSuccess }));
+
+      let slow: Promise<any>;
+      let fast: Promise<any>;
+      await act(async () => {
+        slow = result.current[0]('slow', 200);
+        fast = result.current[0]('fast', 50);
+      });
+
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(50);
+      });
+      expect(result.current[1].data).toBe('fast');
+
+      // The older call resolving later must not overwrite the newer result
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(150);
+      });
+
+      await expect(slow!).resolves.toBeUndefined();
+      await expect(fast!).resolves.toBe('fast');
+      expect(result.current[1].data).toBe('fast');
+      expect(onSuccess).toHaveBeenCalledTimes(1);
+    });
+
+    it("should drop calls made while pending in 'first' mode", async () => {
+      const asyncFunction = jest.fn((value: string, ms: number) => delayed(value, ms));
+      const { result } = renderHook(() => useAsync(asyncFunction, { concurrency: 'first' }));
+
+      let first: Promise<any>;
+      let dropped: Promise<any>;
+      await act(async () => {
+        first = result.current[0]('first', 100);
+        dropped = result.current[0]('second', 10);
+      });
+
+      await expect(dropped!).resolves.toBeUndefined();
+      expect(asyncFunction).toHaveBeenCalledTimes(1);
+
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(100);
+      });
+
+      await expect(first!).resolves.toBe('first');
+      expect(result.current[1].data).toBe('first');
+
+      // Once settled, new calls run again
+      await act(async () => {
+        result.current[0]('third', 10);
+        await jest.advanceTimersByTimeAsync(10);
+      });
+      expect(result.current[1].data).toBe('third');
+    });
+
+    it("should run calls sequentially in 'queue' mode", async () => {
+      const order: string[] = [];
+      const asyncFunction = jest.fn(async (value: string, ms: number) => {
+        order.push(`start ${value}`);
+        const result = await delayed(value, ms);
+        order.push(`end ${value}`);
+        return result;
+      });
+      const { result } = renderHook(() => useAsync(asyncFunction, { concurrency: 'queue' }));
+
+      let calls: Promise<any>[] = [];
+      await act(async () => {
+        calls = [result.current[0]('a', 100), result.current[0]('b', 10), result.current[0]('c', 50)];
+      });
+
+      expect(asyncFunction).toHaveBeenCalledTimes(1);
+
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(100);
+      });
+      expect(result.current[1].data).toBe('a');
+      expect(result.current[1].loading).toBe(true);
+
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(60);
+      });
+
+      await expect(Promise.all(calls)).resolves.toEqual(['a', 'b', 'c']);
+      expect(order).toEqual(['start a', 'end a', 'start b', 'end b', 'start c', 'end c']);
+      expect(result.current[1].data).toBe('c');
+      expect(result.current[1].status).toBe('success');
+      expect(result.current[1].loading).toBe(false);
+    });
+
+    it("should keep the queue moving after a failed call in 'queue' mode", async () => {
+      const asyncFunction = jest
+        .fn()
+        .mockImplementationOnce(() => Promise.reject(new Error('first failed')))
+        .mockImplementationOnce(() => delayed('second', 10));
+      const { result } = renderHook(() => useAsync(asyncFunction, { concurrency: 'queue' }));
+
+      let first: Promise<any>;
+      let second: Promise<any>;
+      await act(async () => {
+        first = result.current[0]();
+        first.catch(() => {});
+        second = result.current[0]();
+      });
+
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(10);
+      });
+
+      await expect(first!).rejects.toThrow('first failed');
+      await expect(second!).resolves.toBe('second');
+      expect(result.current[1].data).toBe('second');
+      expect(result.current[1].error).toBe(null);
+    });
+
+    it("should cancel queued calls along with the running one in 'queue' mode", async () => {
+      const asyncFunction = jest.fn((value: string, ms: number) => delayed(value, ms));
+      const { result } = renderHook(() => useAsync(asyncFunction, { concurrency: 'queue' }));
+
+      let calls: Promise<any>[] = [];
+      await act(async () => {
+        calls = [result.current[0]('a', 100), result.current[0]('b', 100)];
+      });
+
+      act(() => {
+        result.current[1].cancel();
+      });
+
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(200);
+      });
+
+      await expect(Promise.all(calls)).resolves.toEqual([undefined, undefined]);
+      expect(asyncFunction).toHaveBeenCalledTimes(1);
+      expect(result.current[1].status).toBe('cancelled');
+    });
+
+    it("should run calls side by side and apply results as they settle in 'parallel' mode", async () => {
+      const signals: AbortSignal[] = [];
+      const asyncFunction = withSignal(({ signal }) => (value: string, ms: number) => {
+        signals.push(signal);
+        return delayed(value, ms);
+      });
+      const onSuccess = jest.fn();
+      const { result } = renderHook(() =>
+        useAsync(asyncFunction, { concurrency: 'parallel', onSuccess })
+      );
+
+      await act(async () => {
+        result.current[0]('slow', 100);
+        result.current[0]('fast', 20);
+      });
+
+      expect(signals).toHaveLength(2);
+      expect(signals.every(signal => !signal.aborted)).toBe(true);
+
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(20);
+      });
+      expect(result.current[1].data).toBe('fast');
+      expect(result.current[1].loading).toBe(true);
+
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(80);
+      });
+      expect(result.current[1].data).toBe('slow');
+      expect(result.current[1].loading).toBe(false);
+      expect(result.current[1].status).toBe('success');
+      expect(onSuccess.mock.calls).toEqual([
+        ['fast', ['fast', 20]],
+        ['slow', ['slow', 100]],
+      ]);
+    });
+  });
+
+  describe('refetch triggers', () => {
+    const setVisibility = (state: DocumentVisibilityState) => {
+      Object.defineProperty(document, 'visibilityState', { value: state, configurable: true });
+      document.dispatchEvent(new Event('visibilitychange'));
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      setVisibility('visible');
+      jest.useRealTimers();
+    });
+
+    it('should poll with the last arguments after the first execute', async () => {
+      const asyncFunction = jest.fn().mockResolvedValue('status');
+      const { result } = renderHook(() => useAsync(asyncFunction, { pollInterval: 1000 }));
+
+      // Nothing to repeat before the first call
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(1000);
+      });
+      expect(asyncFunction).not.toHaveBeenCalled();
+
+      await act(async () => {
+        await result.current[0]('job-1');
+      });
+
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(2000);
+      });
+
+      expect(asyncFunction).toHaveBeenCalledTimes(3);
+      expect(asyncFunction).toHaveBeenLastCalledWith('job-1');
+    });
+
+    it('should pause polling while the document is hidden', async () => {
+      const asyncFunction = jest.fn().mockResolvedValue('status');
+      const { result } = renderHook(() => useAsync(asyncFunction, { pollInterval: 1000 }));
+
+      await act(async () => {
+        await result.current[0]();
+      });
+
+      act(() => setVisibility('hidden'));
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(3000);
+      });
+      expect(asyncFunction).toHaveBeenCalledTimes(1);
+
+      act(() => setVisibility('visible'));
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(1000);
+      });
+      expect(asyncFunction).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip a poll tick while the previous call is still pending', async () => {
+      const asyncFunction = jest.fn(
+        () => new Promise(resolve => setTimeout(() => resolve('slow'), 2500))
+      );
+      const { result } = renderHook(() => useAsync(asyncFunction, { pollInterval: 1000 }));
+
+      await act(async () => {
+        result.current[0]();
+        await jest.advanceTimersByTimeAsync(2500);
+      });
+
+      expect(asyncFunction).toHaveBeenCalledTimes(1);
+      expect(result.current[1].data).toBe('slow');
+    });
+
+    it('should stop polling on unmount', async () => {
+      const asyncFunction = jest.fn().mockResolvedValue('status');
+      const { result, unmount } = renderHook(() => useAsync(asyncFunction, { pollInterval: 1000 }));
+
+      await act(async () => {
+        await result.current[0]();
+      });
+      unmount();
+
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(5000);
+      });
+      expect(asyncFunction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refetch on window focus and when the tab becomes visible', async () => {
+      const asyncFunction = jest.fn().mockResolvedValue('data');
+      const { result } = renderHook(() => useAsync(asyncFunction, { refetchOnWindowFocus: true }));
+
+      await act(async () => {
+        await result.current[0]('widget');
+      });
+
+      await act(async () => {
+        window.dispatchEvent(new Event('focus'));
+      });
+      expect(asyncFunction).toHaveBeenCalledTimes(2);
+
+      await act(async () => {
+        setVisibility('hidden');
+        setVisibility('visible');
+      });
+      expect(asyncFunction).toHaveBeenCalledTimes(3);
+      expect(asyncFunction).toHaveBeenLastCalledWith('widget');
+    });
+
+    it('should not refetch on focus unless enabled', async () => {
+      const asyncFunction = jest.fn().mockResolvedValue('data');
+      const { result } = renderHook(() => useAsync(asyncFunction));
+
+      await act(async () => {
+        await result.current[0]();
+      });
+      await act(async () => {
+        window.dispatchEvent(new Event('focus'));
+      });
+
+      expect(asyncFunction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refetch when the connection comes back online', async () => {
+      const asyncFunction = jest.fn().mockResolvedValue('data');
+      const { result } = renderHook(() => useAsync(asyncFunction, { refetchOnReconnect: true }));
+
+      await act(async () => {
+        await result.current[0]();
+      });
+
+      await act(async () => {
+        window.dispatchEvent(new Event('offline'));
+      });
+      expect(asyncFunction).toHaveBeenCalledTimes(1);
+
+      await act(async () => {
+        window.dispatchEvent(new Event('online'));
+      });
+      expect(asyncFunction).toHaveBeenCalledTimes(2);
+    });
+
+    it('should only listen for the connection when refetchOnReconnect is set', () => {
+      const addEventListener = jest.spyOn(window, 'addEventListener');
+      const asyncFunction = jest.fn().mockResolvedValue('data');
+      const { rerender } = renderHook(({ refetchOnReconnect }) => useAsync(asyncFunction, { refetchOnReconnect }), {
+        initialProps: { refetchOnReconnect: false },
+      });
+
+      const listensOnline = () => addEventListener.mock.calls.some(([type]) => type === 'online');
+      expect(listensOnline()).toBe(false);
+
+      rerender({ refetchOnReconnect: true });
+      expect(listensOnline()).toBe(true);
+      addEventListener.mockRestore();
+    });
+
+    it('should share one online subscription with useNetworkStatus', async () => {
+      const addEventListener = jest.spyOn(window, 'addEventListener');
+      const asyncFunction = jest.fn().mockResolvedValue('data');
+      const { result } = renderHook(() => ({
+        first: useAsync(asyncFunction, { refetchOnReconnect: true }),
+        second: useAsync(asyncFunction, { refetchOnReconnect: true }),
+        network: useNetworkStatus(),
+      }));
+
+      expect(addEventListener.mock.calls.filter(([type]) => type === 'online')).toHaveLength(1);
+      addEventListener.mockRestore();
+
+      await act(async () => {
+        await result.current.first[0]();
+        window.dispatchEvent(new Event('offline'));
+      });
+      expect(result.current.network.online).toBe(false);
+
+      await act(async () => {
+        window.dispatchEvent(new Event('online'));
+      });
+      expect(result.current.network.online).toBe(true);
+      expect(asyncFunction).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { renderHook } from '@testing-library/react';
+import useAsync, { AsyncArgs, withSignal } from '../useAsync';
+
+// Compile-time assertions: these tests fail at type-check time (tsc / ts-jest), not at runtime
+type Equal<A, B> = (<X>() => X extends A ? 1 : 2) extends <X>() => X extends B ? 1 : 2
+  ? true
+  : false;
+const expectType = <T extends true>(_assertion?: T) => {};
+
+class ApiError extends Error {
+  status = 500;
+}
+
+interface User {
+  id: number;
+  name: string;
+}
+
+const fetchUser = async (id: number): Promise<User> => ({ id, name: 'Ada' });
+const search = withSignal(({ signal }) => async (query: string, page: number) => {
+  if (signal.aborted) throw new Error('aborted');
+  return [query, page] as const;
+});
+const ping = async () => 'pong';
+
+describe('useAsync types', () => {
+  it('should take the execute arguments from the async function', () => {
+    expectType<Equal<AsyncArgs<typeof fetchUser>, [id: number]>>();
+    expectType<Equal<AsyncArgs<typeof search>, [query: string, page: number]>>();
+    expectType<Equal<AsyncArgs<typeof ping>, []>>();
+    expectType<Equal<AsyncArgs<(name: string, age?: number) => Promise<void>>, [name: string, age?: number]>>();
+  });
+
+  it('should type execute and data from the async function', () => {
+    const { result } = renderHook(() => useAsync(fetchUser));
+    const [execute, state] = result.current;
+
+    expectType<Equal<Parameters<typeof execute>, [id: number]>>();
+    expectType<Equal<ReturnType<typeof execute>, Promise<User | undefined>>>();
+    expectType<Equal<typeof state.data, User | null>>();
+    expectType<Equal<typeof state.error, Error | null>>();
+
+    // Only type-checked, never called
+    const invalidCalls = () => {
+      // @ts-expect-error - id must be a number
+      execute('1');
+      // @ts-expect-error - missing id
+      execute();
+      // @ts-expect-error - too many arguments
+      execute(1, 2);
+    };
+    expect(invalidCalls).toEqual(expect.any(Function));
+  });
+
+  it('should type callbacks and the cache key with the result and arguments', () => {
+    renderHook(() =>
+      useAsync(search, {
+        key: (query, page) => `search:${query.toUpperCase()}:${page.toFixed()}`,
+        onSuccess: (data, args) => {
+          expectType<Equal<typeof data, readonly [string, number]>>();
+          expectType<Equal<typeof args, [query: string, page: number]>>();
+        },
+        onError: (error, args) => {
+          expectType<Equal<typeof error, Error>>();
+          expectType<Equal<typeof args, [query: string, page: number]>>();
+        },
+      })
+    );
+
+    renderHook(() =>
+      useAsync(search, {
+        // @ts-expect-error - onSuccess receives the resolved tuple, not a string
+        onSuccess: (data: string) => data,
+      })
+    );
+  });
+
+  it('should type the error through the E parameter', () => {
+    const { result } = renderHook(() =>
+      useAsync<typeof fetchUser, ApiError>(fetchUser, {
+        onError: error => {
+          expectType<Equal<typeof error, ApiError>>();
+        },
+      })
+    );
+
+    expectType<Equal<typeof result.current[1]['error'], ApiError | null>>();
+  });
+});
@@ -0,0 +1,216 @@
+import { renderHook, act } from '@testing-library/react';
+import useAsync, { mutate } from '../useAsync';
+import useAsyncMutation from '../useAsyncMutation';
+
+interface Todo {
+  id: number;
+  title: string;
+}
+
+// Settles a mutation by hand so tests control the ordering
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+// Renders a list through useAsync and loads it into the cache under `key`
+async function renderTodos(key: string, todos: Todo[]) {
+  const fetchTodos = jest.fn().mockResolvedValue(todos);
+  const list = renderHook(() => useAsync(fetchTodos, { key }));
+  await act(async () => {
+    await list.result.current[0]();
+  });
+  return { list, fetchTodos };
+}
+
+const addTodo = (todo: Todo) => (todos: Todo[]) => [...todos, todo];
+
+describe('useAsyncMutation', () => {
+  it('should behave like useAsync without a key', async () => {
+    const mutationFn = jest.fn().mockResolvedValue({ ok: true });
+    const { result } = renderHook(() => useAsyncMutation(mutationFn));
+
+    expect(result.current[1].status).toBe('idle');
+
+    await act(async () => {
+      await result.current[0]('payload');
+    });
+
+    expect(mutationFn).toHaveBeenCalledWith('payload');
+    expect(result.current[1].data).toEqual({ ok: true });
+    expect(result.current[1].status).toBe('success');
+  });
+
+  it('should apply the optimistic value to useAsync data and keep it on success', async () => {
+    const { list } = await renderTodos('todos-success', [{ id: 1, title: 'a' }]);
+    const request = deferred<Todo>();
+    const { result } = renderHook(() =>
+      useAsyncMutation((todo: Todo) => request.promise, {
+        key: 'todos-success',
+        onMutate: (todos: Todo[], [todo]) => addTodo(todo)(todos),
+      })
+    );
+
+    let promise: Promise<any>;
+    act(() => {
+      promise = result.current[0]({ id: 2, title: 'b' });
+    });
+
+    expect(list.result.current[1].data).toEqual([
+      { id: 1, title: 'a' },
+      { id: 2, title: 'b' },
+    ]);
+    expect(result.current[1].loading).toBe(true);
+
+    await act(async () => {
+      request.resolve({ id: 2, title: 'b' });
+      await promise;
+    });
+
+    expect(list.result.current[1].data).toEqual([
+      { id: 1, title: 'a' },
+      { id: 2, title: 'b' },
+    ]);
+    expect(result.current[1].status).toBe('success');
+  });
+
+  it('should roll back to the snapshot on failure', async () => {
+    const { list } = await renderTodos('todos-failure', [{ id: 1, title: 'a' }]);
+    const onError = jest.fn();
+    const onSettled = jest.fn();
+    const error = new Error('save failed');
+    const { result } = renderHook(() =>
+      useAsyncMutation(jest.fn().mockRejectedValue(error), {
+        key: 'todos-failure',
+        onMutate: (todos: Todo[]) => [...todos, { id: 2, title: 'b' }],
+        onError,
+        onSettled,
+      })
+    );
+
+    await act(async () => {
+      await result.current[0]().catch(() => {});
+    });
+
+    expect(list.result.current[1].data).toEqual([{ id: 1, title: 'a' }]);
+    expect(result.current[1].status).toBe('error');
+    expect(onError).toHaveBeenCalledWith(error, []);
+    expect(onSettled).toHaveBeenCalledWith(undefined, error, []);
+  });
+
+  it('should only roll back the failed mutation when mutations overlap', async () => {
+    const { list } = await renderTodos('todos-concurrent', []);
+    const requests = [deferred<Todo>(), deferred<Todo>()];
+    const mutationFn = jest
+      .fn()
+      .mockImplementationOnce(() => requests[0].promise)
+      .mockImplementationOnce(() => requests[1].promise);
+    const { result } = renderHook(() =>
+      useAsyncMutation(mutationFn, {
+        key: 'todos-concurrent',
+        onMutate: (todos: Todo[], [todo]) => addTodo(todo)(todos),
+      })
+    );
+
+    let first: Promise<any>;
+    let second: Promise<any>;
+    act(() => {
+      first = result.current[0]({ id: 1, title: 'first' });
+      second = result.current[0]({ id: 2, title: 'second' });
+    });
+
+    expect(list.result.current[1].data).toHaveLength(2);
+
+    await act(async () => {
+      requests[0].reject(new Error('first failed'));
+      await first.catch(() => {});
+    });
+
+    expect(list.result.current[1].data).toEqual([{ id: 2, title: 'second' }]);
+    expect(result.current[1].loading).toBe(true);
+
+    await act(async () => {
+      requests[1].resolve({ id: 2, title: 'second' });
+      await second;
+    });
+
+    expect(list.result.current[1].data).toEqual([{ id: 2, title: 'second' }]);
+    expect(result.current[1].loading).toBe(false);
+  });
+
+  it('should replay pending optimistic updates on top of newer data', async () => {
+    const { list } = await renderTodos('todos-replay', [{ id: 1, title: 'a' }]);
+    const request = deferred<Todo>();
+    const { result } = renderHook(() =>
+      useAsyncMutation(() => request.promise, {
+        key: 'todos-replay',
+        onMutate: (todos: Todo[]) => [...todos, { id: 3, title: 'optimistic' }],
+      })
+    );
+
+    let promise: Promise<any>;
+    act(() => {
+      promise = result.current[0]();
+    });
+
+    act(() => {
+      mutate('todos-replay', [
+        { id: 1, title: 'a' },
+        { id: 2, title: 'from server' },
+      ]);
+    });
+
+    expect(list.result.current[1].data).toEqual([
+      { id: 1, title: 'a' },
+      { id: 2, title: 'from server' },
+      { id: 3, title: 'optimistic' },
+    ]);
+
+    await act(async () => {
+      request.reject(new Error('nope'));
+      await promise.catch(() => {});
+    });
+
+    expect(list.result.current[1].data).toEqual([
+      { id: 1, title: 'a' },
+      { id: 2, title: 'from server' },
+    ]);
+  });
+
+  it('should call onSuccess before onSettled', async () => {
+    const calls: string[] = [];
+    const { result } = renderHook(() =>
+      useAsyncMutation(jest.fn().mockResolvedValue('saved'), {
+        onSuccess: (data, args) => calls.push(`success ${data} ${args.join()}`),
+        onSettled: (data, error) => calls.push(`settled ${data} ${error}`),
+      })
+    );
+
+    await act(async () => {
+      await result.current[0]('x');
+    });
+
+    expect(calls).toEqual(['success saved x', 'settled saved null']);
+  });
+
+  it('should invalidate the key once settled when requested', async () => {
+    const { fetchTodos } = await renderTodos('todos-invalidate', []);
+    const { result } = renderHook(() =>
+      useAsyncMutation(jest.fn().mockResolvedValue(null), {
+        key: 'todos-invalidate',
+        invalidateOnSettled: true,
+      })
+    );
+
+    await act(async () => {
+      await result.current[0]();
+    });
+
+    expect(fetchTodos).toHaveBeenCalledTimes(2);
+  });
+});
@@ -1,5 +1,6 @@
 import { act, render, renderHook, waitFor } from '@testing-library/react';
 import { useRef } from 'react';
+import { createPortal } from 'react-dom';
 import useClickOutside from '../useClickOutside';
 
 describe('useClickOutside', () => {
@@ -214,4 +215,249 @@ describe('useClickOutside', () => {
     expect(mockHandler).toHaveBeenCalledTimes(1); // Should not be called again
     expect(newHandler).toHaveBeenCalledTimes(1);
   });
-}); 
\ No newline at end of file
+
+  describe('multiple elements and ignore lists', () => {
+    const mousedown = (element: Element) =>
+      act(() => {
+        element.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, composed: true }));
+      });
+
+    it('should treat every ref as inside', () => {
+      const TestComponent = () => {
+        const triggerRef = useRef<HTMLButtonElement>(null);
+        const menuRef = useRef<HTMLDivElement>(null);
+        useClickOutside([triggerRef, menuRef], mockHandler);
+        return (
+          <div>
+            <button ref={triggerRef}>Open</button>
+            <p>Between</p>
+            <div ref={menuRef}>Menu</div>
+          </div>
+        );
+      };
+
+      const { getByText } = render(<TestComponent />);
+
+      mousedown(getByText('Open'));
+      mousedown(getByText('Menu'));
+      expect(mockHandler).not.toHaveBeenCalled();
+
+      mousedown(getByText('Between'));
+      expect(mockHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip clicks matching the ignore selectors', () => {
+      const TestComponent = () => {
+        const ref = useRef<HTMLDivElement>(null);
+        useClickOutside(ref, mockHandler, { ignore: ['.toast', '[data-keep-open]'] });
+        return (
+          <div>
+            <div ref={ref}>Popover</div>
+            <div className="toast">
+              <span>Saved</span>
+            </div>
+            <button data-keep-open>Keep</button>
+            <button>Other</button>
+          </div>
+        );
+      };
+
+      const { getByText } = render(<TestComponent />);
+
+      mousedown(getByText('Saved'));
+      mousedown(getByText('Keep'));
+      expect(mockHandler).not.toHaveBeenCalled();
+
+      mousedown(getByText('Other'));
+      expect(mockHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip clicks for which the ignore predicate returns true', () => {
+      const ignore = jest.fn((event: MouseEvent | TouchEvent) => (event.target as Element).id === 'skip');
+      const TestComponent = () => {
+        const ref = useRef<HTMLDivElement>(null);
+        useClickOutside(ref, mockHandler, { ignore });
+        return (
+          <div>
+            <div ref={ref}>Popover</div>
+            <button id="skip">Skip</button>
+            <button>Other</button>
+          </div>
+        );
+      };
+
+      const { getByText } = render(<TestComponent />);
+
+      mousedown(getByText('Skip'));
+      expect(mockHandler).not.toHaveBeenCalled();
+      expect(ignore).toHaveBeenCalledWith(expect.any(MouseEvent));
+
+      mousedown(getByText('Other'));
+      expect(mockHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should treat clicks in portals rendered by the element as inside', () => {
+      const TestComponent = () => {
+        const ref = useRef<HTMLDivElement>(null);
+        const insideProps = useClickOutside(ref, mockHandler);
+        return (
+          <div ref={ref} {...insideProps}>
+            Dropdown
+            {createPortal(<button>Portal item</button>, document.body)}
+          </div>
+        );
+      };
+
+      const { getByText } = render(<TestComponent />);
+
+      mousedown(getByText('Portal item'));
+      expect(mockHandler).not.toHaveBeenCalled();
+
+      mousedown(document.body);
+      expect(mockHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should look through shadow roots', () => {
+      const host = document.body.appendChild(document.createElement('div'));
+      const shadowRoot = host.attachShadow({ mode: 'open' });
+      const panel = shadowRoot.appendChild(document.createElement('div'));
+      const panelButton = panel.appendChild(document.createElement('button'));
+      const otherButton = shadowRoot.appendChild(document.createElement('button'));
+
+      renderHook(() => useClickOutside({ current: panel }, mockHandler));
+
+      mousedown(panelButton);
+      expect(mockHandler).not.toHaveBeenCalled();
+
+      mousedown(otherButton);
+      expect(mockHandler).toHaveBeenCalledTimes(1);
+      host.remove();
+    });
+  });
+
+  describe('events and detection modes', () => {
+    const dispatch = (element: Element | Document, type: string) =>
+      act(() => {
+        const EventType = type.startsWith('touch') ? TouchEvent : MouseEvent;
+        element.dispatchEvent(new EventType(type, { bubbles: true, composed: true }));
+      });
+
+    const setup = (options: Parameters<typeof useClickOutside>[2]) => {
+      const TestComponent = () => {
+        const ref = useRef<HTMLDivElement>(null);
+        const insideProps = useClickOutside(ref, mockHandler, options);
+        return (
+          <div>
+            <div ref={ref} {...insideProps}>
+              <span>Inside</span>
+              {createPortal(<button>Portal item</button>, document.body)}
+            </div>
+            <div onMouseDown={event => event.stopPropagation()}>
+              <span>Isolated</span>
+            </div>
+            <span>Outside</span>
+          </div>
+        );
+      };
+      return render(<TestComponent />);
+    };
+
+    it('should listen to the configured events', () => {
+      const { getByText } = setup({ events: ['pointerdown', 'click'] });
+
+      dispatch(getByText('Outside'), 'mousedown');
+      expect(mockHandler).not.toHaveBeenCalled();
+
+      dispatch(getByText('Outside'), 'pointerdown');
+      dispatch(getByText('Outside'), 'click');
+      expect(mockHandler).toHaveBeenCalledTimes(2);
+      expect(mockHandler.mock.calls.map(([event]) => event.type)).toEqual(['pointerdown', 'click']);
+    });
+
+    it('should skip the mouse events emulated after a touch', () => {
+      const { getByText } = setup(true);
+
+      dispatch(getByText('Outside'), 'touchstart');
+      dispatch(getByText('Outside'), 'mousedown');
+      expect(mockHandler).toHaveBeenCalledTimes(1);
+      expect(mockHandler).toHaveBeenCalledWith(expect.any(TouchEvent));
+    });
+
+    it('should require the press and the release outside with requireUpOutside', () => {
+      const { getByText } = setup({ requireUpOutside: true });
+
+      // A text selection dragged out of the element
+      dispatch(getByText('Inside'), 'mousedown');
+      dispatch(getByText('Outside'), 'mouseup');
+      expect(mockHandler).not.toHaveBeenCalled();
+
+      dispatch(getByText('Outside'), 'mousedown');
+      expect(mockHandler).not.toHaveBeenCalled();
+      dispatch(getByText('Inside'), 'mouseup');
+      expect(mockHandler).not.toHaveBeenCalled();
+
+      dispatch(getByText('Outside'), 'mousedown');
+      dispatch(getByText('Outside'), 'mouseup');
+      expect(mockHandler).toHaveBeenCalledTimes(1);
+      expect(mockHandler.mock.calls[0][0].type).toBe('mouseup');
+    });
+
+    it('should pair click with the preceding mousedown', () => {
+      const { getByText } = setup({ events: ['click'], requireUpOutside: true });
+
+      dispatch(getByText('Inside'), 'mousedown');
+      dispatch(document.body, 'click');
+      expect(mockHandler).not.toHaveBeenCalled();
+
+      dispatch(getByText('Outside'), 'mousedown');
+      dispatch(getByText('Outside'), 'click');
+      expect(mockHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should see events whose propagation was stopped when listening in the capture phase', () => {
+      jest.useFakeTimers();
+      try {
+        const bubbling = setup(true);
+        dispatch(bubbling.getByText('Isolated'), 'mousedown');
+        expect(mockHandler).not.toHaveBeenCalled();
+        bubbling.unmount();
+
+        const { getByText } = setup({ capture: true });
+        dispatch(getByText('Isolated'), 'mousedown');
+        act(() => jest.runAllTimers());
+        expect(mockHandler).toHaveBeenCalledTimes(1);
+
+        // Portal content still counts as inside
+        dispatch(getByText('Portal item'), 'mousedown');
+        act(() => jest.runAllTimers());
+        expect(mockHandler).toHaveBeenCalledTimes(1);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should drop deferred capture-phase handling on unmount or disable', () => {
+      jest.useFakeTimers();
+      try {
+        const first = setup({ capture: true });
+        dispatch(first.getByText('Outside'), 'mousedown');
+        first.unmount();
+        act(() => jest.runAllTimers());
+        expect(mockHandler).not.toHaveBeenCalled();
+
+        const Toggle = ({ enabled }: { enabled: boolean }) => {
+          const ref = useRef<HTMLDivElement>(null);
+          useClickOutside(ref, mockHandler, { enabled, capture: true });
+          return <div ref={ref}>Inside</div>;
+        };
+        const second = render(<Toggle enabled />);
+        dispatch(document.body, 'mousedown');
+        second.rerender(<Toggle enabled={false} />);
+        act(() => jest.runAllTimers());
+        expect(mockHandler).not.toHaveBeenCalled();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+});
@@ -51,4 +51,161 @@ describe('useDebounceCallback', () => {
     // The callback should not be called
     expect(callback).not.toHaveBeenCalled();
   });
-}); 
\ No newline at end of file
+
+  // Test that cancel drops the pending call
+  it('should cancel a pending call', () => {
+    const callback = jest.fn();
+    const { result } = renderHook(() => useDebounceCallback(callback, 300));
+
+    act(() => {
+      result.current('a');
+    });
+    expect(result.current.isPending()).toBe(true);
+
+    // Cancel before the delay passes
+    act(() => {
+      result.current.cancel();
+      jest.advanceTimersByTime(300);
+    });
+
+    expect(callback).not.toHaveBeenCalled();
+    expect(result.current.isPending()).toBe(false);
+  });
+
+  // Test that flush runs the pending call right away and returns its result
+  it('should flush a pending call', () => {
+    const callback = jest.fn((value: string) => value.toUpperCase());
+    const { result } = renderHook(() => useDebounceCallback(callback, 300));
+
+    let flushed: string | undefined;
+    act(() => {
+      result.current('a');
+      result.current('b');
+      flushed = result.current.flush();
+    });
+
+    // Called once, with the last argument, without waiting
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith('b');
+    expect(flushed).toBe('B');
+    expect(result.current.isPending()).toBe(false);
+
+    // Nothing is left to run after the delay
+    act(() => {
+      jest.advanceTimersByTime(300);
+    });
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  // Test that the debounced function returns the result of the last invocation
+  it('should return the result of the last invocation', () => {
+    const { result } = renderHook(() => useDebounceCallback((value: number) => value * 2, 100));
+
+    // Nothing has run yet
+    expect(result.current(1)).toBeUndefined();
+
+    act(() => {
+      jest.advanceTimersByTime(100);
+    });
+    expect(result.current(5)).toBe(2);
+  });
+
+  // Test leading-edge invocation
+  it('should invoke on the leading edge with leading: true', () => {
+    const callback = jest.fn();
+    const { result } = renderHook(() => useDebounceCallback(callback, 300, { leading: true }));
+
+    act(() => {
+      result.current('a');
+    });
+
+    // Called immediately on the first call
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith('a');
+    // A single call is not repeated on the trailing edge
+    expect(result.current.isPending()).toBe(false);
+
+    act(() => {
+      result.current('b');
+      result.current('c');
+      jest.advanceTimersByTime(300);
+    });
+
+    // The rest of the burst runs once on the trailing edge
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(callback).toHaveBeenLastCalledWith('c');
+  });
+
+  // Test disabling the trailing edge
+  it('should skip the trailing edge with trailing: false', () => {
+    const callback = jest.fn();
+    const { result } = renderHook(() =>
+      useDebounceCallback(callback, 300, { leading: true, trailing: false })
+    );
+
+    act(() => {
+      result.current('a');
+      result.current('b');
+      jest.advanceTimersByTime(300);
+    });
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith('a');
+
+    // A new burst starts with a new leading call
+    act(() => {
+      result.current('c');
+    });
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(callback).toHaveBeenLastCalledWith('c');
+  });
+
+  // Test that maxWait caps the delay while calls keep coming
+  it('should invoke at least every maxWait ms during a burst', () => {
+    const callback = jest.fn();
+    const { result } = renderHook(() => useDebounceCallback(callback, 100, { maxWait: 250 }));
+
+    // Call every 50ms for 600ms, which would postpone a plain debounce forever
+    for (let i = 0; i < 12; i++) {
+      act(() => {
+        result.current(i);
+        jest.advanceTimersByTime(50);
+      });
+    }
+
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(callback).toHaveBeenNthCalledWith(1, 4);
+    expect(callback).toHaveBeenNthCalledWith(2, 9);
+
+    // The end of the burst still runs once
+    act(() => {
+      jest.advanceTimersByTime(100);
+    });
+    expect(callback).toHaveBeenCalledTimes(3);
+    expect(callback).toHaveBeenLastCalledWith(11);
+  });
+
+  // Test that the latest callback is used without resetting the timer
+  it('should call the latest callback', () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    const { result, rerender } = renderHook(({ callback }) => useDebounceCallback(callback, 300), {
+      initialProps: { callback: first },
+    });
+
+    const debounced = result.current;
+    act(() => {
+      result.current('a');
+    });
+    rerender({ callback: second });
+
+    // The debounced function is stable
+    expect(result.current).toBe(debounced);
+
+    act(() => {
+      jest.advanceTimersByTime(300);
+    });
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledWith('a');
+  });
+});
@@ -11,7 +11,7 @@ describe('useDebounceValue', () => {
   // This test checks if the hook correctly debounces value changes
   it('should debounce value changes', () => {
     // Render the hook with an initial value of 'a' and a debounce delay of 500ms
-    // result.current gives us the current debounced value
+    // result.current[0] gives us the current debounced value
     // rerender lets us simulate changing the input value
     const { result, rerender } = renderHook(
       ({ value, delay }) => useDebounceValue(value, delay),
@@ -19,12 +19,12 @@ describe('useDebounceValue', () => {
     );
 
     // At first, the debounced value should be 'a'
-    expect(result.current).toBe('a');
+    expect(result.current[0]).toBe('a');
 
     // Simulate changing the value to 'b' (like a user typing)
     rerender({ value: 'b', delay: 500 });
     // The debounced value should still be 'a' immediately after the change
-    expect(result.current).toBe('a');
+    expect(result.current[0]).toBe('a');
 
     // Fast-forward time by 500ms to simulate waiting for the debounce delay
     act(() => {
@@ -32,6 +32,95 @@ describe('useDebounceValue', () => {
     });
 
     // Now, after the delay, the debounced value should update to 'b'
-    expect(result.current).toBe('b');
+    expect(result.current[0]).toBe('b');
   });
-});
\ No newline at end of file
+
+  // This test checks that the hook reports a value waiting for the delay
+  it('should report whether a value is pending', () => {
+    const { result, rerender } = renderHook(({ value }) => useDebounceValue(value, 500), {
+      initialProps: { value: 'a' },
+    });
+
+    // Nothing is waiting at first
+    expect(result.current[1].isPending).toBe(false);
+
+    // A new value waits for the delay
+    rerender({ value: 'b' });
+    expect(result.current[1].isPending).toBe(true);
+
+    act(() => {
+      jest.advanceTimersByTime(500);
+    });
+    expect(result.current[0]).toBe('b');
+    expect(result.current[1].isPending).toBe(false);
+  });
+
+  // This test checks that flush applies the waiting value right away, and cancel drops it
+  it('should flush and cancel a pending value', () => {
+    const { result, rerender } = renderHook(({ value }) => useDebounceValue(value, 500), {
+      initialProps: { value: 'a' },
+    });
+
+    rerender({ value: 'b' });
+    act(() => {
+      result.current[1].flush();
+    });
+    expect(result.current[0]).toBe('b');
+    expect(result.current[1].isPending).toBe(false);
+
+    rerender({ value: 'c' });
+    act(() => {
+      result.current[1].cancel();
+      jest.advanceTimersByTime(500);
+    });
+    // The debounced value stays at the last applied one
+    expect(result.current[0]).toBe('b');
+    expect(result.current[1].isPending).toBe(false);
+  });
+
+  // This test checks that leading applies the first change of a burst immediately
+  it('should update on the leading edge with leading: true', () => {
+    const { result, rerender } = renderHook(({ value }) => useDebounceValue(value, 500, { leading: true }), {
+      initialProps: { value: 'a' },
+    });
+
+    // The first change is applied right away
+    rerender({ value: 'b' });
+    expect(result.current[0]).toBe('b');
+
+    // Later changes in the same burst wait for the delay
+    rerender({ value: 'c' });
+    expect(result.current[0]).toBe('b');
+    act(() => {
+      jest.advanceTimersByTime(500);
+    });
+    expect(result.current[0]).toBe('c');
+  });
+
+  // This test checks that equal values don't restart the delay
+  it('should skip values that equalityFn finds equal', () => {
+    const sameQuery = (a: { q: string }, b: { q: string }) => a.q === b.q;
+    const { result, rerender } = renderHook(
+      ({ value }) => useDebounceValue(value, 500, { equalityFn: sameQuery }),
+      { initialProps: { value: { q: 'a' } } }
+    );
+    const initial = result.current[0];
+
+    // A new object with the same content doesn't count as a change
+    rerender({ value: { q: 'a' } });
+    expect(result.current[1].isPending).toBe(false);
+
+    rerender({ value: { q: 'b' } });
+    act(() => {
+      jest.advanceTimersByTime(300);
+    });
+    // Re-rendering with an equal object doesn't restart the delay
+    rerender({ value: { q: 'b' } });
+    act(() => {
+      jest.advanceTimersByTime(200);
+    });
+
+    expect(result.current[0]).not.toBe(initial);
+    expect(result.current[0]).toEqual({ q: 'b' });
+  });
+});
@@ -0,0 +1,223 @@
+import { act, fireEvent, render } from '@testing-library/react';
+import { ReactNode, StrictMode, useRef, useState } from 'react';
+import useDismissableLayer, { DismissableLayerOptions, DismissableLayerProvider } from '../useDismissableLayer';
+
+interface LayerProps extends Omit<DismissableLayerOptions, 'onDismiss'> {
+  name: string;
+  onDismiss?: jest.Mock;
+  children?: ReactNode;
+}
+
+// A layer that closes itself when dismissed, and reports the dismissal
+function Layer({ name, onDismiss, children, ...options }: LayerProps) {
+  const ref = useRef<HTMLDivElement>(null);
+  const [open, setOpen] = useState(true);
+  const insideProps = useDismissableLayer(ref, {
+    ...options,
+    enabled: open && options.enabled !== false,
+    onDismiss: () => {
+      onDismiss?.();
+      setOpen(false);
+    },
+  });
+
+  if (!open) return null;
+  return (
+    <div ref={ref} {...insideProps}>
+      <span>{name} content</span>
+      {children}
+    </div>
+  );
+}
+
+const pointerDown = (element: Element) =>
+  act(() => {
+    element.dispatchEvent(new MouseEvent('mousedown', { bubbles: true }));
+  });
+
+const pressEscape = () => {
+  fireEvent.keyDown(document.body, { key: 'Escape' });
+};
+
+describe('useDismissableLayer', () => {
+  it('should dismiss on a click outside and on Escape', () => {
+    const onDismiss = jest.fn();
+    const { queryByText, rerender } = render(
+      <DismissableLayerProvider>
+        <Layer name="Popover" onDismiss={onDismiss} />
+      </DismissableLayerProvider>
+    );
+
+    pointerDown(document.body);
+    expect(onDismiss).toHaveBeenCalledTimes(1);
+    expect(queryByText('Popover content')).toBeNull();
+
+    rerender(
+      <DismissableLayerProvider>
+        <Layer key="reopened" name="Popover" onDismiss={onDismiss} />
+      </DismissableLayerProvider>
+    );
+    pressEscape();
+    expect(onDismiss).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not dismiss on a click inside', () => {
+    const onDismiss = jest.fn();
+    const { getByText } = render(
+      <DismissableLayerProvider>
+        <Layer name="Popover" onDismiss={onDismiss} />
+      </DismissableLayerProvider>
+    );
+
+    pointerDown(getByText('Popover content'));
+    expect(onDismiss).not.toHaveBeenCalled();
+  });
+
+  it('should only dismiss the topmost layer per interaction', () => {
+    const modal = jest.fn();
+    const dropdown = jest.fn();
+    const { queryByText, getByText } = render(
+      <DismissableLayerProvider>
+        <Layer name="Modal" onDismiss={modal}>
+          <Layer name="Dropdown" onDismiss={dropdown} />
+        </Layer>
+      </DismissableLayerProvider>
+    );
+    expect(queryByText('Dropdown content')).toBeTruthy();
+
+    pointerDown(document.body);
+    expect(dropdown).toHaveBeenCalledTimes(1);
+    expect(modal).not.toHaveBeenCalled();
+    expect(getByText('Modal content')).toBeTruthy();
+
+    pointerDown(document.body);
+    expect(modal).toHaveBeenCalledTimes(1);
+  });
+
+  it('should close layers one at a time on Escape', () => {
+    const modal = jest.fn();
+    const dropdown = jest.fn();
+    render(
+      <DismissableLayerProvider>
+        <Layer name="Modal" onDismiss={modal}>
+          <Layer name="Dropdown" onDismiss={dropdown} />
+        </Layer>
+      </DismissableLayerProvider>
+    );
+
+    pressEscape();
+    expect(dropdown).toHaveBeenCalledTimes(1);
+    expect(modal).not.toHaveBeenCalled();
+
+    pressEscape();
+    expect(modal).toHaveBeenCalledTimes(1);
+  });
+
+  it('should close the topmost layer on a click inside a lower one', () => {
+    const modal = jest.fn();
+    const dropdown = jest.fn();
+    const { getByText } = render(
+      <DismissableLayerProvider>
+        <Layer name="Modal" onDismiss={modal}>
+          <Layer name="Dropdown" onDismiss={dropdown} />
+        </Layer>
+      </DismissableLayerProvider>
+    );
+
+    pointerDown(getByText('Modal content'));
+    expect(dropdown).toHaveBeenCalledTimes(1);
+    expect(modal).not.toHaveBeenCalled();
+  });
+
+  it('should stay open when onPointerDownOutside prevents the default', () => {
+    const modal = jest.fn();
+    const dropdown = jest.fn();
+    const onPointerDownOutside = jest.fn((event: CustomEvent) => event.preventDefault());
+    const { getByText } = render(
+      <DismissableLayerProvider>
+        <Layer name="Modal" onDismiss={modal}>
+          <Layer name="Dropdown" onDismiss={dropdown} onPointerDownOutside={onPointerDownOutside} />
+        </Layer>
+      </DismissableLayerProvider>
+    );
+
+    pointerDown(document.body);
+    expect(onPointerDownOutside).toHaveBeenCalledWith(
+      expect.objectContaining({ detail: { originalEvent: expect.any(MouseEvent) } })
+    );
+    expect(dropdown).not.toHaveBeenCalled();
+    // The interaction belonged to the topmost layer, so the modal stays open too
+    expect(modal).not.toHaveBeenCalled();
+    expect(getByText('Dropdown content')).toBeTruthy();
+  });
+
+  it('should stay open when onEscapeKeyDown prevents the default', () => {
+    const onDismiss = jest.fn();
+    const onEscapeKeyDown = jest.fn((event: KeyboardEvent) => event.preventDefault());
+    render(
+      <DismissableLayerProvider>
+        <Layer name="Dialog" onDismiss={onDismiss} onEscapeKeyDown={onEscapeKeyDown} />
+      </DismissableLayerProvider>
+    );
+
+    pressEscape();
+    expect(onEscapeKeyDown).toHaveBeenCalledWith(expect.any(KeyboardEvent));
+    expect(onDismiss).not.toHaveBeenCalled();
+  });
+
+  it('should leave the stack when disabled', () => {
+    const modal = jest.fn();
+    const dropdown = jest.fn();
+    render(
+      <DismissableLayerProvider>
+        <Layer name="Modal" onDismiss={modal}>
+          <Layer name="Dropdown" onDismiss={dropdown} enabled={false} />
+        </Layer>
+      </DismissableLayerProvider>
+    );
+
+    pressEscape();
+    expect(dropdown).not.toHaveBeenCalled();
+    expect(modal).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stack layers by when they are enabled, parents below children', () => {
+    const modal = jest.fn();
+    const dropdown = jest.fn();
+    const tree = (modalEnabled: boolean, dropdownEnabled: boolean) => (
+      <StrictMode>
+        <DismissableLayerProvider>
+          <Layer name="Modal" onDismiss={modal} enabled={modalEnabled}>
+            <Layer name="Dropdown" onDismiss={dropdown} enabled={dropdownEnabled} />
+          </Layer>
+        </DismissableLayerProvider>
+      </StrictMode>
+    );
+    const { rerender } = render(tree(false, false));
+
+    // Enabled together, with effects run twice: the nested layer is on top
+    rerender(tree(true, true));
+    pointerDown(document.body);
+    expect(dropdown).toHaveBeenCalledTimes(1);
+    expect(modal).not.toHaveBeenCalled();
+  });
+
+  it('should put a layer that is enabled again on top', () => {
+    const modal = jest.fn();
+    const dropdown = jest.fn();
+    const tree = (modalEnabled: boolean) => (
+      <DismissableLayerProvider>
+        <Layer name="Modal" onDismiss={modal} enabled={modalEnabled}>
+          <Layer name="Dropdown" onDismiss={dropdown} />
+        </Layer>
+      </DismissableLayerProvider>
+    );
+    const { rerender } = render(tree(true));
+
+    rerender(tree(false));
+    rerender(tree(true));
+    pressEscape();
+    expect(modal).toHaveBeenCalledTimes(1);
+    expect(dropdown).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,207 @@
+import { fireEvent, render } from '@testing-library/react';
+import { ReactNode, RefObject, useRef, useState } from 'react';
+import useFocusTrap, { FocusTrapOptions } from '../useFocusTrap';
+
+interface DialogProps extends Omit<FocusTrapOptions, 'initialFocus'> {
+  name: string;
+  focusSecond?: boolean;
+  children?: ReactNode;
+}
+
+function Dialog({ name, focusSecond, children, ...options }: DialogProps) {
+  const ref = useRef<HTMLDivElement>(null);
+  const secondRef = useRef<HTMLButtonElement>(null);
+  useFocusTrap(ref, { ...options, initialFocus: focusSecond ? secondRef : undefined });
+
+  return (
+    <div ref={ref} tabIndex={-1} data-testid={name}>
+      <button>{name} first</button>
+      <button ref={secondRef}>{name} second</button>
+      <button disabled>{name} disabled</button>
+      <button>{name} last</button>
+      {children}
+    </div>
+  );
+}
+
+// Toggles a dialog from a trigger button, as an app would
+function App({ nested, initialOpen = false }: { nested?: ReactNode; initialOpen?: boolean }) {
+  const [open, setOpen] = useState(initialOpen);
+  return (
+    <>
+      <button onClick={() => setOpen(true)}>Open</button>
+      {open && (
+        <Dialog name="Outer">
+          <button onClick={() => setOpen(false)}>Close</button>
+          {nested}
+        </Dialog>
+      )}
+    </>
+  );
+}
+
+const tab = (shiftKey = false) => {
+  fireEvent.keyDown(document.activeElement ?? document.body, { key: 'Tab', shiftKey });
+};
+
+const focused = () => document.activeElement?.textContent;
+
+describe('useFocusTrap', () => {
+  it('should move focus to the first tabbable element on activation', () => {
+    render(<Dialog name="Dialog" />);
+    expect(focused()).toBe('Dialog first');
+  });
+
+  it('should focus initialFocus on activation', () => {
+    render(<Dialog name="Dialog" focusSecond />);
+    expect(focused()).toBe('Dialog second');
+  });
+
+  it('should wrap Tab and Shift+Tab at the ends, skipping disabled elements', () => {
+    const { getByText } = render(<Dialog name="Dialog" />);
+
+    tab(true);
+    expect(focused()).toBe('Dialog last');
+
+    tab();
+    expect(focused()).toBe('Dialog first');
+
+    // In between, the browser moves focus
+    getByText('Dialog second').focus();
+    const event = new KeyboardEvent('keydown', { key: 'Tab', bubbles: true, cancelable: true });
+    document.activeElement?.dispatchEvent(event);
+    expect(event.defaultPrevented).toBe(false);
+    expect(focused()).toBe('Dialog second');
+  });
+
+  it('should keep focus on the container when nothing inside is tabbable', () => {
+    function Empty() {
+      const ref = useRef<HTMLDivElement>(null);
+      useFocusTrap(ref);
+      return <div ref={ref} tabIndex={-1} data-testid="empty" />;
+    }
+    const { getByTestId } = render(<Empty />);
+
+    expect(document.activeElement).toBe(getByTestId('empty'));
+    tab();
+    expect(document.activeElement).toBe(getByTestId('empty'));
+  });
+
+  it('should pull focus that escapes back in', () => {
+    const { getByText } = render(<App initialOpen />);
+    expect(focused()).toBe('Outer first');
+
+    getByText('Open').focus();
+    expect(focused()).toBe('Outer first');
+  });
+
+  it('should restore focus to the previously focused element on deactivation', () => {
+    const { getByText } = render(<App />);
+
+    getByText('Open').focus();
+    fireEvent.click(getByText('Open'));
+    expect(focused()).toBe('Outer first');
+
+    fireEvent.click(getByText('Close'));
+    expect(focused()).toBe('Open');
+  });
+
+  it('should not restore focus when restoreFocus is false', () => {
+    const trigger = document.createElement('button');
+    document.body.appendChild(trigger);
+    trigger.focus();
+
+    const { unmount } = render(<Dialog name="Dialog" restoreFocus={false} />);
+    unmount();
+    expect(document.activeElement).not.toBe(trigger);
+    trigger.remove();
+  });
+
+  it('should do nothing while disabled', () => {
+    const { rerender } = render(<Dialog name="Dialog" enabled={false} />);
+    expect(document.activeElement).toBe(document.body);
+
+    rerender(<Dialog name="Dialog" enabled />);
+    expect(focused()).toBe('Dialog first');
+  });
+
+  it('should let a nested trap take over and hand focus back when it closes', () => {
+    function Nested() {
+      const [open, setOpen] = useState(false);
+      return (
+        <>
+          <button onClick={() => setOpen(true)}>Open nested</button>
+          {open && (
+            <Dialog name="Inner">
+              <button onClick={() => setOpen(false)}>Close nested</button>
+            </Dialog>
+          )}
+        </>
+      );
+    }
+    const { getByText } = render(<App initialOpen nested={<Nested />} />);
+
+    getByText('Open nested').focus();
+    fireEvent.click(getByText('Open nested'));
+    expect(focused()).toBe('Inner first');
+
+    // Only the inner trap handles Tab
+    tab(true);
+    expect(focused()).toBe('Close nested');
+    getByText('Outer last').focus();
+    expect(focused()).toBe('Inner first');
+
+    fireEvent.click(getByText('Close nested'));
+    expect(focused()).toBe('Open nested');
+
+    // The outer trap is back in charge
+    tab();
+    expect(focused()).toBe('Outer first');
+  });
+
+  it('should stack traps that activate in the same render', () => {
+    function Both({ open }: { open: boolean }) {
+      return open ? (
+        <Dialog name="Outer">
+          <Dialog name="Inner" />
+        </Dialog>
+      ) : null;
+    }
+    const trigger = document.createElement('button');
+    document.body.appendChild(trigger);
+    trigger.focus();
+
+    const { rerender } = render(<Both open />);
+    expect(focused()).toBe('Inner first');
+
+    tab(true);
+    expect(focused()).toBe('Inner last');
+
+    rerender(<Both open={false} />);
+    expect(document.activeElement).toBe(trigger);
+    trigger.remove();
+  });
+
+  it('should read initialFocus from the latest options', () => {
+    function WithRef({ target }: { target: 'first' | 'last' }) {
+      const ref = useRef<HTMLDivElement>(null);
+      const firstRef = useRef<HTMLButtonElement>(null);
+      const lastRef = useRef<HTMLButtonElement>(null);
+      const refs: Record<string, RefObject<HTMLButtonElement | null>> = { first: firstRef, last: lastRef };
+      const [enabled, setEnabled] = useState(false);
+      useFocusTrap(ref, { enabled, initialFocus: refs[target] });
+      return (
+        <div ref={ref}>
+          <button ref={firstRef} onClick={() => setEnabled(true)}>
+            First
+          </button>
+          <button ref={lastRef}>Last</button>
+        </div>
+      );
+    }
+    const { getByText } = render(<WithRef target="last" />);
+
+    fireEvent.click(getByText('First'));
+    expect(focused()).toBe('Last');
+  });
+});
@@ -0,0 +1,240 @@
+// Mock IntersectionObserver must be set before React/hook imports
+let mockObserver: { trigger: (isIntersecting: boolean) => void } | null = null;
+
+(global as any).IntersectionObserver = jest.fn(callback => {
+  const observer = {
+    observe: jest.fn(),
+    unobserve: jest.fn(),
+    disconnect: jest.fn(),
+    trigger: (isIntersecting: boolean) => callback([{ isIntersecting }], observer),
+  };
+  mockObserver = observer;
+  return observer;
+});
+
+import { renderHook, render, act } from '@testing-library/react';
+import useInfiniteAsync, { useInfiniteSentinel } from '../useInfiniteAsync';
+
+interface Page {
+  items: number[];
+  next: number | null;
+}
+
+// Three pages of two items each, fetched by offset
+const fetchPage = jest.fn(async (offset: number): Promise<Page> => ({
+  items: [offset, offset + 1],
+  next: offset + 2 < 6 ? offset + 2 : null,
+}));
+
+const pageOptions = {
+  initialPageParam: 0,
+  getNextPageParam: (lastPage: Page) => lastPage.next,
+};
+
+describe('useInfiniteAsync', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+    mockObserver = null;
+  });
+
+  it('should start with no pages and a next page to load', () => {
+    const { result } = renderHook(() => useInfiniteAsync(fetchPage, pageOptions));
+
+    expect(result.current.pages).toEqual([]);
+    expect(result.current.status).toBe('idle');
+    expect(result.current.hasNextPage).toBe(true);
+    expect(result.current.hasPreviousPage).toBe(false);
+    expect(fetchPage).not.toHaveBeenCalled();
+  });
+
+  it('should append pages until getNextPageParam returns null', async () => {
+    const { result } = renderHook(() => useInfiniteAsync(fetchPage, pageOptions));
+
+    for (let i = 0; i < 3; i++) {
+      await act(async () => {
+        await result.current.fetchNextPage();
+      });
+    }
+
+    expect(result.current.pages.map(page => page.items)).toEqual([[0, 1], [2, 3], [4, 5]]);
+    expect(result.current.pageParams).toEqual([0, 2, 4]);
+    expect(result.current.hasNextPage).toBe(false);
+    expect(fetchPage).toHaveBeenCalledWith(2, { signal: expect.any(AbortSignal) });
+
+    await act(async () => {
+      await result.current.fetchNextPage();
+    });
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+  });
+
+  it('should report isFetchingNextPage and join overlapping calls', async () => {
+    const { result } = renderHook(() => useInfiniteAsync(fetchPage, { ...pageOptions, immediate: true }));
+
+    expect(result.current.isFetchingNextPage).toBe(true);
+    expect(result.current.isFetchingPreviousPage).toBe(false);
+
+    await act(async () => {
+      await Promise.all([result.current.fetchNextPage(), result.current.fetchNextPage()]);
+    });
+
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+    expect(result.current.isFetchingNextPage).toBe(false);
+    expect(result.current.pages).toHaveLength(1);
+  });
+
+  it('should prepend previous pages with cursors', async () => {
+    const fetchAround = jest.fn(async (cursor: number) => ({ cursor }));
+    const { result } = renderHook(() =>
+      useInfiniteAsync(fetchAround, {
+        initialPageParam: 10,
+        getNextPageParam: page => page.cursor + 1,
+        getPreviousPageParam: page => (page.cursor > 9 ? page.cursor - 1 : null),
+      })
+    );
+
+    await act(async () => {
+      await result.current.fetchNextPage();
+    });
+    expect(result.current.hasPreviousPage).toBe(true);
+
+    await act(async () => {
+      await result.current.fetchPreviousPage();
+    });
+
+    expect(result.current.pages).toEqual([{ cursor: 9 }, { cursor: 10 }]);
+    expect(result.current.pageParams).toEqual([9, 10]);
+    expect(result.current.hasPreviousPage).toBe(false);
+  });
+
+  it('should refetch every loaded page with params derived from the fresh pages', async () => {
+    let version = 1;
+    const fetchVersioned = jest.fn(async (cursor: string) => ({
+      cursor,
+      version,
+      next: `${cursor}>v${version}`,
+    }));
+    const { result } = renderHook(() =>
+      useInfiniteAsync(fetchVersioned, {
+        initialPageParam: 'start',
+        getNextPageParam: page => page.next,
+      })
+    );
+
+    await act(async () => {
+      await result.current.fetchNextPage();
+    });
+    await act(async () => {
+      await result.current.fetchNextPage();
+    });
+    expect(result.current.pageParams).toEqual(['start', 'start>v1']);
+
+    version = 2;
+    await act(async () => {
+      await result.current.refetch();
+    });
+
+    expect(result.current.pageParams).toEqual(['start', 'start>v2']);
+    expect(result.current.pages.map(page => page.version)).toEqual([2, 2]);
+    expect(fetchVersioned).toHaveBeenCalledTimes(4);
+  });
+
+  it('should keep loaded pages when a page fails', async () => {
+    const onError = jest.fn();
+    const failing = jest
+      .fn()
+      .mockResolvedValueOnce({ items: [0, 1], next: 2 })
+      .mockRejectedValueOnce(new Error('page failed'));
+    const { result } = renderHook(() => useInfiniteAsync<Page, number>(failing, { ...pageOptions, onError }));
+
+    await act(async () => {
+      await result.current.fetchNextPage();
+    });
+    await act(async () => {
+      await result.current.fetchNextPage().catch(() => {});
+    });
+
+    expect(result.current.pages).toEqual([{ items: [0, 1], next: 2 }]);
+    expect(result.current.hasNextPage).toBe(true);
+    expect(result.current.error).toEqual(new Error('page failed'));
+    expect(result.current.status).toBe('error');
+    expect(onError).toHaveBeenCalledWith(new Error('page failed'));
+  });
+
+  it('should drop all pages on reset', async () => {
+    const { result } = renderHook(() => useInfiniteAsync(fetchPage, pageOptions));
+
+    await act(async () => {
+      await result.current.fetchNextPage();
+    });
+    act(() => {
+      result.current.reset();
+    });
+
+    expect(result.current.pages).toEqual([]);
+    expect(result.current.status).toBe('idle');
+
+    await act(async () => {
+      await result.current.fetchNextPage();
+    });
+    expect(result.current.pageParams).toEqual([0]);
+  });
+
+  it('should keep its functions stable with inline fetchPage and page param functions', async () => {
+    const { result, rerender } = renderHook(({ limit }) =>
+      useInfiniteAsync((offset: number) => fetchPage(offset), {
+        initialPageParam: 0,
+        getNextPageParam: lastPage => (lastPage.next !== null && lastPage.next < limit ? lastPage.next : null),
+      }),
+      { initialProps: { limit: 6 } }
+    );
+    const { fetchNextPage, refetch } = result.current;
+
+    rerender({ limit: 4 });
+    expect(result.current.fetchNextPage).toBe(fetchNextPage);
+    expect(result.current.refetch).toBe(refetch);
+
+    // The latest functions are used
+    for (let i = 0; i < 3; i++) {
+      await act(async () => {
+        await result.current.fetchNextPage();
+      });
+    }
+    expect(result.current.pageParams).toEqual([0, 2]);
+  });
+
+  describe('useInfiniteSentinel', () => {
+    function List() {
+      const infinite = useInfiniteAsync(fetchPage, pageOptions);
+      const sentinelRef = useInfiniteSentinel<HTMLDivElement>(infinite);
+      return (
+        <div>
+          <p data-testid="count">{infinite.pages.length}</p>
+          <div ref={sentinelRef} />
+        </div>
+      );
+    }
+
+    it('should load pages while the sentinel is visible until there are no more', async () => {
+      const { getByTestId } = render(<List />);
+      expect(getByTestId('count').textContent).toBe('0');
+
+      await act(async () => {
+        mockObserver!.trigger(true);
+      });
+
+      expect(getByTestId('count').textContent).toBe('3');
+      expect(fetchPage).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not load while the sentinel is hidden', async () => {
+      const { getByTestId } = render(<List />);
+
+      await act(async () => {
+        mockObserver!.trigger(false);
+      });
+
+      expect(getByTestId('count').textContent).toBe('0');
+      expect(fetchPage).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { act } from '@testing-library/react';
+import { hydrateRoot, Root } from 'react-dom/client';
+import { renderToString } from 'react-dom/server';
+import useLocalStorage from '../useLocalStorage';
+
+function Theme({ onRender }: { onRender?: (theme: string, isHydrated: boolean) => void }) {
+  const [theme, , , { isHydrated }] = useLocalStorage('ssr-theme', 'light');
+  onRender?.(theme, isHydrated);
+  return (
+    <p>
+      {theme} {isHydrated ? 'hydrated' : 'server'}
+    </p>
+  );
+}
+
+describe('useLocalStorage with server rendering', () => {
+  let container: HTMLDivElement;
+  let root: Root | null = null;
+
+  beforeEach(() => {
+    window.localStorage.setItem('ssr-theme', '"dark"');
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    act(() => root?.unmount());
+    root = null;
+    container.remove();
+    window.localStorage.clear();
+  });
+
+  it('should render the initial value on the server', () => {
+    const html = renderToString(<Theme />);
+
+    expect(html).toContain('light');
+    expect(html).toContain('server');
+  });
+
+  it('should hydrate without a mismatch and then show the stored value', async () => {
+    container.innerHTML = renderToString(<Theme />);
+    const renders: Array<[string, boolean]> = [];
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    const onRecoverableError = jest.fn();
+
+    await act(async () => {
+      root = hydrateRoot(
+        container,
+        <Theme onRender={(theme, isHydrated) => renders.push([theme, isHydrated])} />,
+        { onRecoverableError }
+      );
+    });
+
+    expect(renders[0]).toEqual(['light', false]);
+    expect(renders[renders.length - 1]).toEqual(['dark', true]);
+    expect(container.textContent).toBe('dark hydrated');
+    expect(onRecoverableError).not.toHaveBeenCalled();
+    expect(consoleSpy).not.toHaveBeenCalled();
+    consoleSpy.mockRestore();
+  });
+});
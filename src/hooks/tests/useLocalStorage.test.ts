@@ -1,5 +1,7 @@
-import { renderHook, act } from '@testing-library/react';
+import { renderHook, render, act } from '@testing-library/react';
+import { StrictMode, createElement, useState } from 'react';
 import useLocalStorage from '../useLocalStorage';
+import { StorageError } from '../useStorageState';
 
 // Mock localStorage
 const localStorageMock = (() => {
@@ -176,4 +178,515 @@ describe('useLocalStorage', () => {
     
     expect(result.current[0]).toBe('set-value'); // Should not change
   });
-}); 
\ No newline at end of file
+
+  describe('synchronization', () => {
+    it('should update every instance of a key in the same tab', () => {
+      const first = renderHook(() => useLocalStorage('shared-theme', 'light'));
+      const second = renderHook(() => useLocalStorage('shared-theme', 'light'));
+
+      act(() => {
+        first.result.current[1]('dark');
+      });
+
+      expect(first.result.current[0]).toBe('dark');
+      expect(second.result.current[0]).toBe('dark');
+
+      act(() => {
+        second.result.current[2]();
+      });
+
+      expect(first.result.current[0]).toBe('light');
+      expect(second.result.current[0]).toBe('light');
+    });
+
+    it('should not update instances of other keys', () => {
+      const theme = renderHook(() => useLocalStorage('sync-theme', 'light'));
+      const language = renderHook(() => useLocalStorage('sync-language', 'en'));
+
+      act(() => {
+        theme.result.current[1]('dark');
+      });
+
+      expect(language.result.current[0]).toBe('en');
+    });
+
+    it('should chain function updates made in the same tick', () => {
+      const first = renderHook(() => useLocalStorage('sync-count', 0));
+      const second = renderHook(() => useLocalStorage('sync-count', 0));
+
+      act(() => {
+        first.result.current[1](prev => prev + 1);
+        second.result.current[1](prev => prev + 1);
+      });
+
+      expect(first.result.current[0]).toBe(2);
+      expect(localStorageMock.setItem).toHaveBeenLastCalledWith('sync-count', '2');
+    });
+
+    it('should keep the setter stable across updates', () => {
+      const { result } = renderHook(() => useLocalStorage('sync-stable', 'a'));
+      const setValue = result.current[1];
+
+      act(() => {
+        result.current[1]('b');
+      });
+
+      expect(result.current[1]).toBe(setValue);
+    });
+
+    it('should reset to the initial value when another tab removes the key', () => {
+      const { result } = renderHook(() => useLocalStorage('sync-removed', 'initial-value'));
+
+      act(() => {
+        result.current[1]('set-value');
+      });
+      act(() => {
+        window.dispatchEvent(new StorageEvent('storage', { key: 'sync-removed', newValue: null }));
+      });
+
+      expect(result.current[0]).toBe('initial-value');
+    });
+
+    it('should reset every key when another tab clears localStorage', () => {
+      const theme = renderHook(() => useLocalStorage('sync-clear-theme', 'light'));
+      const language = renderHook(() => useLocalStorage('sync-clear-language', 'en'));
+
+      act(() => {
+        theme.result.current[1]('dark');
+        language.result.current[1]('fr');
+      });
+      act(() => {
+        window.dispatchEvent(new StorageEvent('storage', { key: null }));
+      });
+
+      expect(theme.result.current[0]).toBe('light');
+      expect(language.result.current[0]).toBe('en');
+    });
+  });
+
+  describe('serialization', () => {
+    const dateOptions = {
+      serialize: (value: Date) => value.toISOString(),
+      deserialize: (raw: string) => new Date(raw),
+    };
+
+    it('should store values with a custom serializer', () => {
+      const { result } = renderHook(() =>
+        useLocalStorage('date-key', new Date(0), dateOptions)
+      );
+
+      act(() => {
+        result.current[1](new Date('2024-01-02T03:04:05.000Z'));
+      });
+
+      expect(localStorageMock.setItem).toHaveBeenCalledWith('date-key', '2024-01-02T03:04:05.000Z');
+    });
+
+    it('should read values with a custom deserializer', () => {
+      localStorageMock.getItem.mockReturnValue('2024-01-02T03:04:05.000Z');
+
+      const { result } = renderHook(() =>
+        useLocalStorage('date-key', new Date(0), dateOptions)
+      );
+
+      expect(result.current[0]).toBeInstanceOf(Date);
+      expect(result.current[0].getTime()).toBe(Date.UTC(2024, 0, 2, 3, 4, 5));
+    });
+
+    it('should round-trip Maps through a custom serializer', () => {
+      const mapOptions = {
+        serialize: (value: Map<string, number>) => JSON.stringify([...value]),
+        deserialize: (raw: string) => new Map<string, number>(JSON.parse(raw)),
+      };
+      const { result } = renderHook(() => useLocalStorage('map-key', new Map<string, number>(), mapOptions));
+
+      act(() => {
+        result.current[1](new Map([['a', 1]]));
+      });
+      const stored = localStorageMock.setItem.mock.calls[0][1];
+
+      localStorageMock.getItem.mockReturnValue(stored);
+      const { result: reloaded } = renderHook(() =>
+        useLocalStorage('map-key', new Map<string, number>(), mapOptions)
+      );
+
+      expect(reloaded.current[0].get('a')).toBe(1);
+    });
+  });
+
+  describe('validation', () => {
+    const isTheme = (value: unknown): value is 'light' | 'dark' => value === 'light' || value === 'dark';
+
+    it('should use a stored value that passes validation', () => {
+      localStorageMock.getItem.mockReturnValue('"dark"');
+
+      const { result } = renderHook(() =>
+        useLocalStorage<'light' | 'dark'>('theme', 'light', { validate: isTheme })
+      );
+
+      expect(result.current[0]).toBe('dark');
+    });
+
+    it('should fall back to the initial value when validation fails', () => {
+      localStorageMock.getItem.mockReturnValue('{"color":"dark"}');
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      const { result } = renderHook(() =>
+        useLocalStorage<'light' | 'dark'>('theme', 'light', { validate: isTheme })
+      );
+
+      expect(result.current[0]).toBe('light');
+      expect(consoleSpy).toHaveBeenCalledWith('Invalid localStorage value for key "theme", using initial value');
+      consoleSpy.mockRestore();
+    });
+
+    it('should validate values from other tabs', () => {
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+      const { result } = renderHook(() =>
+        useLocalStorage<'light' | 'dark'>('theme', 'dark', { validate: isTheme })
+      );
+
+      act(() => {
+        window.dispatchEvent(new StorageEvent('storage', { key: 'theme', newValue: '42' }));
+      });
+
+      expect(result.current[0]).toBe('dark');
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('versioning', () => {
+    interface SettingsV2 {
+      theme: string;
+      fontSize: number;
+    }
+
+    const migrate = jest.fn((oldValue: any, oldVersion: number): SettingsV2 => {
+      if (oldVersion === 0) return { theme: oldValue, fontSize: 14 };
+      return { ...oldValue, fontSize: oldValue.size };
+    });
+
+    it('should store values with their version', () => {
+      const { result } = renderHook(() =>
+        useLocalStorage('settings', { theme: 'light', fontSize: 14 }, { version: 2, migrate })
+      );
+
+      act(() => {
+        result.current[1]({ theme: 'dark', fontSize: 16 });
+      });
+
+      expect(localStorageMock.setItem).toHaveBeenCalledWith(
+        'settings',
+        JSON.stringify({ __version: 2, value: JSON.stringify({ theme: 'dark', fontSize: 16 }) })
+      );
+    });
+
+    it('should read values of the current version without migrating', () => {
+      localStorageMock.getItem.mockReturnValue(
+        JSON.stringify({ __version: 2, value: '{"theme":"dark","fontSize":16}' })
+      );
+
+      const { result } = renderHook(() =>
+        useLocalStorage('settings', { theme: 'light', fontSize: 14 }, { version: 2, migrate })
+      );
+
+      expect(result.current[0]).toEqual({ theme: 'dark', fontSize: 16 });
+      expect(migrate).not.toHaveBeenCalled();
+    });
+
+    it('should migrate older versions and write the result back', () => {
+      localStorageMock.getItem.mockReturnValue(
+        JSON.stringify({ __version: 1, value: '{"theme":"dark","size":18}' })
+      );
+
+      const { result } = renderHook(() =>
+        useLocalStorage('settings', { theme: 'light', fontSize: 14 }, { version: 2, migrate })
+      );
+
+      expect(migrate).toHaveBeenCalledWith({ theme: 'dark', size: 18 }, 1);
+      expect(result.current[0]).toEqual({ theme: 'dark', size: 18, fontSize: 18 });
+      expect(localStorageMock.setItem).toHaveBeenCalledWith(
+        'settings',
+        JSON.stringify({ __version: 2, value: JSON.stringify({ theme: 'dark', size: 18, fontSize: 18 }) })
+      );
+    });
+
+    it('should migrate once for every instance and update', () => {
+      localStorageMock.getItem.mockReturnValue(
+        JSON.stringify({ __version: 1, value: '{"theme":"dark","size":18}' })
+      );
+      const options = { version: 2, migrate };
+
+      const { result } = renderHook(() => {
+        const first = useLocalStorage<SettingsV2>('settings', { theme: 'light', fontSize: 14 }, options);
+        const second = useLocalStorage<SettingsV2>('settings', { theme: 'light', fontSize: 14 }, options);
+        return { first, second };
+      });
+      const migrations = migrate.mock.calls.length;
+      expect(localStorageMock.setItem).toHaveBeenCalledTimes(1);
+
+      act(() => {
+        result.current.first[1](prev => ({ ...prev, theme: 'blue' }));
+      });
+
+      expect(migrate).toHaveBeenCalledTimes(migrations);
+      expect(result.current.second[0]).toEqual({ theme: 'blue', size: 18, fontSize: 18 });
+      expect(localStorageMock.setItem).toHaveBeenCalledTimes(2);
+    });
+
+    it('should treat values stored without a version as version 0', () => {
+      localStorageMock.getItem.mockReturnValue('"dark"');
+
+      const { result } = renderHook(() =>
+        useLocalStorage('settings', { theme: 'light', fontSize: 14 }, { version: 2, migrate })
+      );
+
+      expect(migrate).toHaveBeenCalledWith('dark', 0);
+      expect(result.current[0]).toEqual({ theme: 'dark', fontSize: 14 });
+    });
+
+    it('should use the initial value when a migrated value fails validation', () => {
+      localStorageMock.getItem.mockReturnValue(JSON.stringify({ __version: 1, value: '{}' }));
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+      const isSettings = (value: unknown): value is SettingsV2 =>
+        typeof (value as SettingsV2).theme === 'string' && typeof (value as SettingsV2).fontSize === 'number';
+
+      const { result } = renderHook(() =>
+        useLocalStorage(
+          'settings',
+          { theme: 'light', fontSize: 14 },
+          { version: 2, migrate, validate: isSettings }
+        )
+      );
+
+      expect(result.current[0]).toEqual({ theme: 'light', fontSize: 14 });
+      expect(localStorageMock.setItem).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+
+    it('should ignore values from a newer version or without a migration', () => {
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      localStorageMock.getItem.mockReturnValue(JSON.stringify({ __version: 3, value: '"future"' }));
+      const { result: newer } = renderHook(() =>
+        useLocalStorage('settings', 'current', { version: 2, migrate: () => 'migrated' })
+      );
+      expect(newer.current[0]).toBe('current');
+
+      localStorageMock.getItem.mockReturnValue(JSON.stringify({ __version: 1, value: '"old"' }));
+      const { result: unmigrated } = renderHook(() => useLocalStorage('settings', 'current', { version: 2 }));
+      expect(unmigrated.current[0]).toBe('current');
+
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'Cannot migrate localStorage key "settings" from version 3 to 2, using initial value'
+      );
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('expiry', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ now: 1000 });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should store values with their expiry time', () => {
+      const { result } = renderHook(() => useLocalStorage('token', '', { ttl: 5000 }));
+
+      act(() => {
+        result.current[1]('abc');
+      });
+
+      expect(localStorageMock.setItem).toHaveBeenCalledWith(
+        'token',
+        JSON.stringify({ __expires: 6000, value: '"abc"' })
+      );
+    });
+
+    it('should read values that have not expired', () => {
+      localStorageMock.getItem.mockReturnValue(JSON.stringify({ __expires: 6000, value: '"abc"' }));
+
+      const { result } = renderHook(() => useLocalStorage('token', '', { ttl: 5000 }));
+
+      expect(result.current[0]).toBe('abc');
+      expect(localStorageMock.removeItem).not.toHaveBeenCalled();
+    });
+
+    it('should return the initial value for expired values and remove them', () => {
+      localStorageMock.getItem.mockReturnValue(JSON.stringify({ __expires: 500, value: '"abc"' }));
+
+      const { result } = renderHook(() => useLocalStorage('token', 'none', { ttl: 5000 }));
+
+      expect(result.current[0]).toBe('none');
+
+      act(() => {
+        jest.runOnlyPendingTimers();
+      });
+      expect(localStorageMock.removeItem).toHaveBeenCalledWith('token');
+    });
+
+    it('should reset to the initial value when the value expires while mounted', () => {
+      const { result } = renderHook(() => useLocalStorage('token', 'none', { ttl: 5000 }));
+
+      act(() => {
+        result.current[1]('abc');
+      });
+      act(() => {
+        jest.advanceTimersByTime(4999);
+      });
+      expect(result.current[0]).toBe('abc');
+
+      act(() => {
+        jest.advanceTimersByTime(1);
+      });
+      expect(result.current[0]).toBe('none');
+      expect(localStorageMock.removeItem).toHaveBeenCalledWith('token');
+    });
+  });
+
+  describe('error handling', () => {
+    const quotaError = () => new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+
+    it('should report quota errors to onError instead of logging them', () => {
+      localStorageMock.setItem.mockImplementationOnce(() => {
+        throw quotaError();
+      });
+      const onError = jest.fn();
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      const { result } = renderHook(() => useLocalStorage('draft', '', { onError }));
+      act(() => {
+        result.current[1]('long text');
+      });
+
+      expect(onError).toHaveBeenCalledWith({ kind: 'quota', key: 'draft', cause: expect.any(DOMException) });
+      expect(consoleSpy).not.toHaveBeenCalled();
+      expect(result.current[0]).toBe('long text');
+      consoleSpy.mockRestore();
+    });
+
+    it('should report values that cannot be parsed', () => {
+      localStorageMock.getItem.mockReturnValue('invalid-json');
+      const onError = jest.fn();
+
+      const { result } = renderHook(() => useLocalStorage('draft', 'empty', { onError }));
+
+      expect(result.current[0]).toBe('empty');
+      expect(onError).toHaveBeenCalledWith({ kind: 'parse', key: 'draft', cause: expect.any(SyntaxError) });
+    });
+
+    it('should report parse errors after rendering, once per value', () => {
+      localStorageMock.getItem.mockReturnValue('invalid-json');
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      const onError = jest.fn();
+
+      function Draft({ onError }: { onError: (error: StorageError) => void }) {
+        const [draft] = useLocalStorage('draft', 'empty', { onError });
+        return createElement('p', null, draft);
+      }
+      // Shows the error in the parent, as a toast would
+      function App() {
+        const [message, setMessage] = useState<string | null>(null);
+        const handleError = (error: StorageError) => {
+          onError(error);
+          setMessage(error.kind);
+        };
+        return createElement('div', null, createElement(Draft, { onError: handleError }), message);
+      }
+
+      const { getByText } = render(createElement(StrictMode, null, createElement(App)));
+
+      expect(getByText('parse')).toBeTruthy();
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(consoleSpy).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+
+    it('should report values that fail validation as parse errors', () => {
+      localStorageMock.getItem.mockReturnValue('42');
+      const onError = jest.fn();
+
+      renderHook(() =>
+        useLocalStorage('draft', 'empty', {
+          onError,
+          validate: (value): value is string => typeof value === 'string',
+        })
+      );
+
+      expect(onError).toHaveBeenCalledWith({ kind: 'parse', key: 'draft', cause: expect.any(Error) });
+    });
+
+    it('should report values that cannot be serialized', () => {
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+      const onError = jest.fn();
+      const cause = new TypeError('Converting circular structure to JSON');
+
+      const { result } = renderHook(() =>
+        useLocalStorage('draft', 'empty', {
+          onError,
+          serialize: () => {
+            throw cause;
+          },
+        })
+      );
+
+      act(() => {
+        result.current[1]('text');
+      });
+
+      expect(onError).toHaveBeenCalledWith({ kind: 'serialize', key: 'draft', cause });
+      expect(consoleSpy).not.toHaveBeenCalled();
+      expect(result.current[0]).toBe('empty');
+      consoleSpy.mockRestore();
+    });
+
+    it('should report blocked storage access as security errors', () => {
+      localStorageMock.getItem.mockImplementation(() => {
+        throw new DOMException('Access is denied.', 'SecurityError');
+      });
+      const onError = jest.fn();
+
+      const { result } = renderHook(() => useLocalStorage('draft', 'empty', { onError }));
+
+      expect(result.current[0]).toBe('empty');
+      expect(onError).toHaveBeenCalledWith({ kind: 'security', key: 'draft', cause: expect.any(DOMException) });
+    });
+
+    it('should retry a write after evict frees space', async () => {
+      localStorageMock.setItem.mockImplementationOnce(() => {
+        throw quotaError();
+      });
+      const onError = jest.fn();
+      const evict = jest.fn(() => true);
+
+      const { result } = renderHook(() => useLocalStorage('draft', '', { onError, evict }));
+      await act(async () => {
+        result.current[1]('long text');
+      });
+
+      expect(evict).toHaveBeenCalledWith({ key: 'draft', value: '"long text"', storage: expect.any(Object) });
+      expect(localStorageMock.setItem).toHaveBeenCalledTimes(2);
+      expect((localStorageMock as any)._store.draft).toBe('"long text"');
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it('should report the quota error when evict does not free space', async () => {
+      localStorageMock.setItem.mockImplementation(() => {
+        throw quotaError();
+      });
+      const onError = jest.fn();
+      const evict = jest.fn(async () => false);
+
+      const { result } = renderHook(() => useLocalStorage('draft', '', { onError, evict }));
+      await act(async () => {
+        result.current[1]('long text');
+      });
+
+      expect(localStorageMock.setItem).toHaveBeenCalledTimes(1);
+      expect(onError).toHaveBeenCalledWith({ kind: 'quota', key: 'draft', cause: expect.any(DOMException) });
+    });
+  });
+});
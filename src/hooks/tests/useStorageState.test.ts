@@ -0,0 +1,411 @@
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { webcrypto } from 'crypto';
+import { TextDecoder, TextEncoder } from 'util';
+import useStorageState, {
+  AsyncStorageAdapter,
+  clearNamespace,
+  createEncryptedStorage,
+  createIndexedDBStorage,
+  createMemoryStorage,
+  sessionStorageAdapter,
+} from '../useStorageState';
+
+// An async adapter whose reads are settled by hand
+function createDeferredStorage(values: Record<string, string> = {}) {
+  const pending: Array<() => void> = [];
+  const storage: AsyncStorageAdapter = {
+    name: 'deferred storage',
+    async: true,
+    getItem: jest.fn(
+      (key: string) => new Promise<string | null>(resolve => pending.push(() => resolve(values[key] ?? null)))
+    ),
+    setItem: jest.fn(async (key: string, value: string) => {
+      values[key] = value;
+    }),
+    removeItem: jest.fn(async (key: string) => {
+      delete values[key];
+    }),
+  };
+  const flush = async () => {
+    await act(async () => {
+      pending.splice(0).forEach(resolve => resolve());
+    });
+  };
+  return { storage, values, flush };
+}
+
+// Just enough of the IndexedDB API for the adapter: one database with one object store
+function createFakeIndexedDB() {
+  const data = new Map<string, unknown>();
+  const later = (callback: () => void) => Promise.resolve().then(callback);
+
+  const database = {
+    createObjectStore: jest.fn(),
+    transaction: jest.fn(() => {
+      const transaction: any = { error: null };
+      const complete = (result: unknown) => {
+        later(() => transaction.oncomplete());
+        return { result };
+      };
+      transaction.objectStore = () => ({
+        get: (key: string) => complete(data.get(key)),
+        put: (value: unknown, key: string) => {
+          data.set(key, value);
+          return complete(key);
+        },
+        delete: (key: string) => {
+          data.delete(key);
+          return complete(undefined);
+        },
+      });
+      return transaction;
+    }),
+  };
+
+  const open = jest.fn(() => {
+    const request: any = { result: database };
+    later(() => {
+      request.onupgradeneeded();
+      request.onsuccess();
+    });
+    return request;
+  });
+
+  return { indexedDB: { open }, data, database };
+}
+
+describe('useStorageState', () => {
+  afterEach(() => {
+    window.sessionStorage.clear();
+  });
+
+  describe('sessionStorage adapter', () => {
+    it('should persist values in sessionStorage', () => {
+      const { result } = renderHook(() =>
+        useStorageState('session-step', 1, { storage: sessionStorageAdapter })
+      );
+
+      act(() => {
+        result.current[1](2);
+      });
+
+      expect(result.current[0]).toBe(2);
+      expect(window.sessionStorage.getItem('session-step')).toBe('2');
+      expect(result.current[3].isHydrated).toBe(true);
+    });
+
+    it('should only follow storage events from sessionStorage', () => {
+      const { result } = renderHook(() =>
+        useStorageState('session-tab', 'a', { storage: sessionStorageAdapter })
+      );
+
+      act(() => {
+        window.dispatchEvent(
+          new StorageEvent('storage', { key: 'session-tab', newValue: '"local"', storageArea: window.localStorage })
+        );
+      });
+      expect(result.current[0]).toBe('a');
+
+      act(() => {
+        window.dispatchEvent(
+          new StorageEvent('storage', { key: 'session-tab', newValue: '"session"', storageArea: window.sessionStorage })
+        );
+      });
+      expect(result.current[0]).toBe('session');
+    });
+  });
+
+  describe('memory adapter', () => {
+    it('should share values between instances using the same adapter', () => {
+      const storage = createMemoryStorage({ count: '5' });
+      const first = renderHook(() => useStorageState('count', 0, { storage }));
+      const second = renderHook(() => useStorageState('count', 0, { storage }));
+
+      expect(first.result.current[0]).toBe(5);
+
+      act(() => {
+        first.result.current[1](prev => prev + 1);
+      });
+
+      expect(second.result.current[0]).toBe(6);
+      expect(storage.getItem('count')).toBe('6');
+    });
+
+    it('should keep adapters separate', () => {
+      const first = renderHook(() => useStorageState('key', 'a', { storage: createMemoryStorage() }));
+      const second = renderHook(() => useStorageState('key', 'a', { storage: createMemoryStorage() }));
+
+      act(() => {
+        first.result.current[1]('b');
+      });
+
+      expect(second.result.current[0]).toBe('a');
+    });
+
+    it('should run values through the serialization pipeline', () => {
+      const storage = createMemoryStorage({ settings: JSON.stringify({ __version: 1, value: '"dark"' }) });
+      const { result } = renderHook(() =>
+        useStorageState('settings', { theme: 'light' }, {
+          storage,
+          version: 2,
+          migrate: oldValue => ({ theme: oldValue as string }),
+        })
+      );
+
+      expect(result.current[0]).toEqual({ theme: 'dark' });
+      expect(storage.getItem('settings')).toBe(JSON.stringify({ __version: 2, value: '{"theme":"dark"}' }));
+    });
+  });
+
+  describe('async adapters', () => {
+    it('should render the initial value until the stored value is read', async () => {
+      const { storage, flush } = createDeferredStorage({ draft: '"saved draft"' });
+      const { result } = renderHook(() => useStorageState('draft', '', { storage }));
+
+      expect(result.current[0]).toBe('');
+      expect(result.current[3].isHydrated).toBe(false);
+
+      await flush();
+
+      expect(result.current[0]).toBe('saved draft');
+      expect(result.current[3].isHydrated).toBe(true);
+    });
+
+    it('should read each key once for all instances', async () => {
+      const { storage, flush } = createDeferredStorage({ draft: '"saved draft"' });
+      const first = renderHook(() => useStorageState('draft', '', { storage }));
+      const second = renderHook(() => useStorageState('draft', '', { storage }));
+
+      await flush();
+
+      expect(storage.getItem).toHaveBeenCalledTimes(1);
+      expect(first.result.current[0]).toBe('saved draft');
+      expect(second.result.current[0]).toBe('saved draft');
+    });
+
+    it('should keep a value set before the stored value was read', async () => {
+      const { storage, values, flush } = createDeferredStorage({ draft: '"stale"' });
+      const { result } = renderHook(() => useStorageState('draft', '', { storage }));
+
+      act(() => {
+        result.current[1]('typed');
+      });
+      expect(result.current[3].isHydrated).toBe(true);
+
+      await flush();
+
+      expect(result.current[0]).toBe('typed');
+      expect(values.draft).toBe('"typed"');
+    });
+
+    it('should warn when an async write fails', async () => {
+      const { storage, flush } = createDeferredStorage();
+      (storage.setItem as jest.Mock).mockRejectedValueOnce(new Error('disk full'));
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+      const { result } = renderHook(() => useStorageState('draft', '', { storage }));
+      await flush();
+
+      await act(async () => {
+        result.current[1]('unsaved');
+      });
+
+      expect(result.current[0]).toBe('unsaved');
+      expect(consoleSpy).toHaveBeenCalledWith('Error setting deferred storage key "draft":', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('IndexedDB adapter', () => {
+    afterEach(() => {
+      delete (global as any).indexedDB;
+    });
+
+    it('should read and write values in an object store', async () => {
+      const fake = createFakeIndexedDB();
+      (global as any).indexedDB = fake.indexedDB;
+      fake.data.set('notes', '["first"]');
+      const storage = createIndexedDBStorage({ databaseName: 'app', storeName: 'state' });
+
+      const { result } = renderHook(() => useStorageState<string[]>('notes', [], { storage }));
+      expect(result.current[3].isHydrated).toBe(false);
+
+      await waitFor(() => expect(result.current[3].isHydrated).toBe(true));
+      expect(result.current[0]).toEqual(['first']);
+      expect(fake.indexedDB.open).toHaveBeenCalledWith('app', 1);
+      expect(fake.database.createObjectStore).toHaveBeenCalledWith('state');
+
+      await act(async () => {
+        result.current[1](prev => [...prev, 'second']);
+      });
+      expect(fake.data.get('notes')).toBe('["first","second"]');
+
+      await act(async () => {
+        result.current[2]();
+      });
+      expect(fake.data.has('notes')).toBe(false);
+      expect(result.current[0]).toEqual([]);
+      expect(fake.indexedDB.open).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to the initial value when IndexedDB is unavailable', async () => {
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+      const storage = createIndexedDBStorage();
+
+      const { result } = renderHook(() => useStorageState('notes', 'none', { storage }));
+      await waitFor(() => expect(result.current[3].isHydrated).toBe(true));
+
+      expect(result.current[0]).toBe('none');
+      expect(consoleSpy).toHaveBeenCalledWith('Error reading IndexedDB key "notes":', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+  });
+  describe('namespaces', () => {
+    it('should store values under the namespaced key', () => {
+      const storage = createMemoryStorage();
+      const first = renderHook(() => useStorageState('theme', 'light', { storage, namespace: 'shop' }));
+      const second = renderHook(() => useStorageState('theme', 'light', { storage, namespace: 'blog' }));
+
+      act(() => {
+        first.result.current[1]('dark');
+      });
+
+      expect(storage.getItem('shop:theme')).toBe('"dark"');
+      expect(storage.getItem('theme')).toBeNull();
+      expect(second.result.current[0]).toBe('light');
+    });
+
+    it('should clear every key of a namespace', async () => {
+      const storage = createMemoryStorage({ 'shop:theme': '"dark"', 'shop:cart': '[1]', 'blog:theme': '"dark"' });
+      const theme = renderHook(() => useStorageState('theme', 'light', { storage, namespace: 'shop' }));
+      const blogTheme = renderHook(() => useStorageState('theme', 'light', { storage, namespace: 'blog' }));
+
+      await act(async () => {
+        await clearNamespace('shop', storage);
+      });
+
+      expect(theme.result.current[0]).toBe('light');
+      expect(blogTheme.result.current[0]).toBe('dark');
+      expect(storage.keys!()).toEqual(['blog:theme']);
+    });
+
+    it('should reject when the storage cannot list its keys', async () => {
+      const { storage } = createDeferredStorage();
+
+      await expect(clearNamespace('shop', storage)).rejects.toThrow(
+        'Cannot clear namespace "shop": deferred storage can\'t list its keys'
+      );
+    });
+
+    it('should reject an empty namespace instead of clearing every key', async () => {
+      const storage = createMemoryStorage({ theme: '"dark"', 'shop:cart': '[]' });
+
+      await expect(clearNamespace('', storage)).rejects.toThrow(
+        'Cannot clear namespace "": the namespace must not be empty'
+      );
+      expect(storage.keys!()).toEqual(['theme', 'shop:cart']);
+    });
+  });
+
+  describe('encrypted adapter', () => {
+    const originalCrypto = globalThis.crypto;
+    const generateKey = () =>
+      webcrypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+
+    // jsdom has neither Web Crypto's `subtle` nor the text codecs, so use Node's
+    beforeAll(() => {
+      Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+      Object.assign(globalThis, { TextEncoder, TextDecoder });
+    });
+
+    afterAll(() => {
+      Object.defineProperty(globalThis, 'crypto', { value: originalCrypto, configurable: true });
+    });
+
+    it('should store values encrypted and read them back', async () => {
+      const inner = createMemoryStorage();
+      const storage = createEncryptedStorage({ key: generateKey(), storage: inner });
+      const { result } = renderHook(() => useStorageState('token', '', { storage }));
+      await waitFor(() => expect(result.current[3].isHydrated).toBe(true));
+
+      await act(async () => {
+        result.current[1]('secret value');
+      });
+
+      const stored = inner.getItem('token');
+      expect(stored).not.toBeNull();
+      expect(stored).not.toContain('secret');
+
+      const reader = renderHook(() => useStorageState('token', '', { storage }));
+      expect(reader.result.current[0]).toBe('secret value');
+      await expect(storage.getItem('token')).resolves.toBe('"secret value"');
+    });
+
+    it('should use a new nonce for every write', async () => {
+      const inner = createMemoryStorage();
+      const storage = createEncryptedStorage({ key: generateKey(), storage: inner });
+
+      await storage.setItem('token', 'same');
+      const first = inner.getItem('token');
+      await storage.setItem('token', 'same');
+
+      expect(inner.getItem('token')).not.toBe(first);
+    });
+
+    it('should apply writes to a key in the order they were made', async () => {
+      const inner = createMemoryStorage();
+      const storage = createEncryptedStorage({ key: generateKey(), storage: inner });
+      // The first value takes longer to encrypt than the ones after it
+      const encrypt = webcrypto.subtle.encrypt.bind(webcrypto.subtle);
+      const encryptSpy = jest
+        .spyOn(webcrypto.subtle, 'encrypt')
+        .mockImplementationOnce(async (...args) => {
+          await new Promise(resolve => setTimeout(resolve, 20));
+          return encrypt(...args);
+        });
+
+      try {
+        await Promise.all([
+          storage.setItem('token', '"first"'),
+          storage.setItem('token', '"second"'),
+          storage.setItem('other', '"other"'),
+        ]);
+        await expect(storage.getItem('token')).resolves.toBe('"second"');
+
+        storage.setItem('token', '"third"');
+        const removed = storage.removeItem('token');
+        await expect(storage.getItem('token')).resolves.toBeNull();
+        await removed;
+        expect(inner.getItem('other')).not.toBeNull();
+      } finally {
+        encryptSpy.mockRestore();
+      }
+    });
+
+    it('should fall back to the initial value when a value cannot be decrypted', async () => {
+      const inner = createMemoryStorage();
+      await createEncryptedStorage({ key: generateKey(), storage: inner }).setItem('token', '"secret"');
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+      const storage = createEncryptedStorage({ key: generateKey(), storage: inner });
+
+      const { result } = renderHook(() => useStorageState('token', 'none', { storage }));
+      await waitFor(() => expect(result.current[3].isHydrated).toBe(true));
+
+      expect(result.current[0]).toBe('none');
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'Error reading encrypted memory storage key "token":',
+        expect.anything()
+      );
+      consoleSpy.mockRestore();
+    });
+
+    it('should clear namespaces in the underlying storage', async () => {
+      const inner = createMemoryStorage({ other: '1' });
+      const storage = createEncryptedStorage({ key: generateKey(), storage: inner });
+      await storage.setItem('app:token', '"secret"');
+
+      await clearNamespace('app', storage);
+
+      expect(inner.keys!()).toEqual(['other']);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { act, render, screen } from '@testing-library/react';
+import { Component, ReactNode, Suspense } from 'react';
+import { invalidate, mutate } from '../useAsync';
+import useSuspenseAsync from '../useSuspenseAsync';
+
+class ErrorBoundary extends Component<
+  { children: ReactNode; onReset?: () => void },
+  { error: Error | null }
+> {
+  state = { error: null as Error | null };
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  reset = () => {
+    this.props.onReset?.();
+    this.setState({ error: null });
+  };
+
+  render() {
+    if (this.state.error) {
+      return (
+        <div>
+          <p>Error: {this.state.error.message}</p>
+          <button onClick={this.reset}>Retry</button>
+        </div>
+      );
+    }
+    return this.props.children;
+  }
+}
+
+// Settles a request by hand so tests control when Suspense resolves
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('useSuspenseAsync', () => {
+  it('should suspend until data resolves and then render it', async () => {
+    const request = deferred<string>();
+    const fetchName = jest.fn((_id: number) => request.promise);
+
+    const Name = () => {
+      const [name] = useSuspenseAsync(fetchName, [1], { key: 'suspense-name' });
+      return <p>Name: {name}</p>;
+    };
+
+    await act(async () => {
+      render(
+        <Suspense fallback={<p>Loading...</p>}>
+          <Name />
+        </Suspense>
+      );
+    });
+
+    expect(screen.getByText('Loading...')).toBeTruthy();
+
+    await act(async () => {
+      request.resolve('Ada');
+      await request.promise;
+    });
+
+    expect(screen.getByText('Name: Ada')).toBeTruthy();
+    expect(fetchName).toHaveBeenCalledTimes(1);
+    expect(fetchName).toHaveBeenCalledWith(1);
+  });
+
+  it('should share one request between components suspending on the same key', async () => {
+    const request = deferred<number>();
+    const fetchCount = jest.fn(() => request.promise);
+
+    const Count = ({ label }: { label: string }) => {
+      const [count] = useSuspenseAsync(fetchCount, [], { key: 'suspense-shared' });
+      return (
+        <p>
+          {label}: {count}
+        </p>
+      );
+    };
+
+    await act(async () => {
+      render(
+        <Suspense fallback={<p>Loading...</p>}>
+          <Count label="first" />
+          <Count label="second" />
+        </Suspense>
+      );
+    });
+
+    await act(async () => {
+      request.resolve(3);
+      await request.promise;
+    });
+
+    expect(screen.getByText('first: 3')).toBeTruthy();
+    expect(screen.getByText('second: 3')).toBeTruthy();
+    expect(fetchCount).toHaveBeenCalledTimes(1);
+  });
+
+  it('should rethrow errors to the nearest error boundary and retry after invalidate', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const fetchItem = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('not found'))
+      .mockResolvedValueOnce('item');
+
+    const Item = () => {
+      const [item] = useSuspenseAsync(fetchItem, [], { key: 'suspense-error' });
+      return <p>Item: {item}</p>;
+    };
+
+    await act(async () => {
+      render(
+        <ErrorBoundary onReset={() => invalidate('suspense-error')}>
+          <Suspense fallback={<p>Loading...</p>}>
+            <Item />
+          </Suspense>
+        </ErrorBoundary>
+      );
+    });
+
+    expect(screen.getByText('Error: not found')).toBeTruthy();
+
+    await act(async () => {
+      screen.getByText('Retry').click();
+    });
+
+    expect(screen.getByText('Item: item')).toBeTruthy();
+    expect(fetchItem).toHaveBeenCalledTimes(2);
+    consoleSpy.mockRestore();
+  });
+
+  it('should render cached data without suspending', async () => {
+    const fetchTheme = jest.fn().mockResolvedValue('dark');
+    mutate('suspense-cached', 'light');
+
+    const Theme = () => {
+      const [theme] = useSuspenseAsync(fetchTheme, [], {
+        key: 'suspense-cached',
+        staleTime: Infinity,
+      });
+      return <p>Theme: {theme}</p>;
+    };
+
+    render(
+      <Suspense fallback={<p>Loading...</p>}>
+        <Theme />
+      </Suspense>
+    );
+
+    expect(screen.getByText('Theme: light')).toBeTruthy();
+    expect(fetchTheme).not.toHaveBeenCalled();
+  });
+
+  it('should refetch in the background without showing the fallback again', async () => {
+    const fetchVersion = jest.fn().mockResolvedValueOnce('v1').mockResolvedValueOnce('v2');
+    let refetch!: () => void;
+
+    const Version = () => {
+      const [version, actions] = useSuspenseAsync(fetchVersion, [], {
+        key: 'suspense-refetch',
+        staleTime: Infinity,
+      });
+      refetch = actions.refetch;
+      return <p>Version: {version}</p>;
+    };
+
+    await act(async () => {
+      render(
+        <Suspense fallback={<p>Loading...</p>}>
+          <Version />
+        </Suspense>
+      );
+    });
+    expect(screen.getByText('Version: v1')).toBeTruthy();
+
+    act(() => {
+      refetch();
+    });
+    expect(screen.getByText('Version: v1')).toBeTruthy();
+    expect(screen.queryByText('Loading...')).toBeNull();
+
+    await act(async () => {
+      await Promise.resolve();
+    });
+
+    expect(screen.getByText('Version: v2')).toBeTruthy();
+    expect(fetchVersion).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,152 @@
+// Import utilities for testing hooks
+import { renderHook, act } from '@testing-library/react';
+// Import the custom hook to be tested
+import useThrottleCallback from '../useThrottleCallback';
+
+// Enable Jest's fake timers, which also control animation frames
+jest.useFakeTimers();
+
+describe('useThrottleCallback', () => {
+  // Test the default leading and trailing invocations
+  it('should invoke on the first call and at the end of the wait', () => {
+    const callback = jest.fn();
+    const { result } = renderHook(() => useThrottleCallback(callback, 100));
+
+    act(() => {
+      result.current('a');
+      result.current('b');
+      result.current('c');
+    });
+
+    // The first call runs right away
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith('a');
+    expect(result.current.isPending()).toBe(true);
+
+    act(() => {
+      jest.advanceTimersByTime(100);
+    });
+
+    // The latest call runs at the end of the wait
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(callback).toHaveBeenLastCalledWith('c');
+  });
+
+  // Test that a steady stream of calls is limited to one per wait
+  it('should invoke at most once per wait while calls keep coming', () => {
+    const callback = jest.fn();
+    const { result } = renderHook(() => useThrottleCallback(callback, 100));
+
+    // Call every 10ms for 500ms
+    for (let i = 0; i < 50; i++) {
+      act(() => {
+        result.current(i);
+        jest.advanceTimersByTime(10);
+      });
+    }
+
+    // Once right away, then once per 100ms up to 500ms
+    expect(callback).toHaveBeenCalledTimes(6);
+    expect(callback).toHaveBeenNthCalledWith(1, 0);
+    expect(callback).toHaveBeenNthCalledWith(2, 9);
+  });
+
+  // Test disabling either edge
+  it('should skip the leading or trailing invocation', () => {
+    const trailingOnly = jest.fn();
+    const leadingOnly = jest.fn();
+    const { result: trailing } = renderHook(() =>
+      useThrottleCallback(trailingOnly, 100, { leading: false })
+    );
+    const { result: leading } = renderHook(() =>
+      useThrottleCallback(leadingOnly, 100, { trailing: false })
+    );
+
+    act(() => {
+      trailing.current('a');
+      trailing.current('b');
+      leading.current('a');
+      leading.current('b');
+    });
+    expect(trailingOnly).not.toHaveBeenCalled();
+    expect(leadingOnly).toHaveBeenCalledWith('a');
+
+    act(() => {
+      jest.advanceTimersByTime(100);
+    });
+    expect(trailingOnly).toHaveBeenCalledTimes(1);
+    expect(trailingOnly).toHaveBeenCalledWith('b');
+    expect(leadingOnly).toHaveBeenCalledTimes(1);
+  });
+
+  // Test the animation frame mode
+  it('should invoke at most once per animation frame with wait: frame', () => {
+    const callback = jest.fn();
+    const { result } = renderHook(() => useThrottleCallback(callback, 'frame', { leading: false }));
+
+    act(() => {
+      result.current(1);
+      result.current(2);
+    });
+    expect(callback).not.toHaveBeenCalled();
+
+    // The next frame runs the latest call
+    act(() => {
+      jest.advanceTimersToNextFrame();
+    });
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith(2);
+
+    // Calls right after a frame wait for the next one
+    act(() => {
+      result.current(3);
+    });
+    expect(callback).toHaveBeenCalledTimes(1);
+    act(() => {
+      jest.advanceTimersToNextFrame();
+    });
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(callback).toHaveBeenLastCalledWith(3);
+  });
+
+  // Test cancel and flush
+  it('should cancel and flush the pending call', () => {
+    const callback = jest.fn((value: number) => value * 10);
+    const { result } = renderHook(() => useThrottleCallback(callback, 100));
+
+    act(() => {
+      result.current(1);
+      result.current(2);
+      result.current.cancel();
+      jest.advanceTimersByTime(100);
+    });
+    // Only the leading call ran
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    let flushed: number | undefined;
+    act(() => {
+      result.current(3);
+      result.current(4);
+      flushed = result.current.flush();
+    });
+    expect(callback).toHaveBeenLastCalledWith(4);
+    expect(flushed).toBe(40);
+    expect(result.current.isPending()).toBe(false);
+  });
+
+  // Test that a pending frame is dropped on unmount
+  it('should not call callback if unmounted before the next frame', () => {
+    const callback = jest.fn();
+    const { result, unmount } = renderHook(() => useThrottleCallback(callback, 'frame', { leading: false }));
+
+    act(() => {
+      result.current('x');
+    });
+    unmount();
+    act(() => {
+      jest.advanceTimersToNextFrame();
+    });
+
+    expect(callback).not.toHaveBeenCalled();
+  });
+});
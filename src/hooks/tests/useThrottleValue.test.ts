@@ -0,0 +1,90 @@
+// Import the necessary functions to test React hooks
+import { renderHook, act } from '@testing-library/react';
+// Import the custom hook we want to test
+import { useThrottleValue } from '../useThrottleValue';
+
+// Tell Jest to use fake timers so we can control time-based behavior in our tests
+jest.useFakeTimers();
+
+describe('useThrottleValue', () => {
+  // This test checks that the value keeps updating while it keeps changing, at most once per wait
+  it('should throttle value changes', () => {
+    const { result, rerender } = renderHook(({ value }) => useThrottleValue(value, 100), {
+      initialProps: { value: 0 },
+    });
+    expect(result.current[0]).toBe(0);
+    expect(result.current[1].isPending).toBe(false);
+
+    // The first change is applied right away
+    rerender({ value: 1 });
+    expect(result.current[0]).toBe(1);
+
+    // Further changes within the wait are held back
+    rerender({ value: 2 });
+    rerender({ value: 3 });
+    expect(result.current[0]).toBe(1);
+    expect(result.current[1].isPending).toBe(true);
+
+    act(() => {
+      jest.advanceTimersByTime(100);
+    });
+    expect(result.current[0]).toBe(3);
+    expect(result.current[1].isPending).toBe(false);
+  });
+
+  // This test checks that flush applies the waiting value, and cancel drops it
+  it('should flush and cancel a waiting value', () => {
+    const { result, rerender } = renderHook(({ value }) => useThrottleValue(value, 100, { leading: false }), {
+      initialProps: { value: 'a' },
+    });
+
+    rerender({ value: 'b' });
+    expect(result.current[1].isPending).toBe(true);
+    act(() => {
+      result.current[1].flush();
+    });
+    expect(result.current[0]).toBe('b');
+    expect(result.current[1].isPending).toBe(false);
+
+    rerender({ value: 'c' });
+    act(() => {
+      result.current[1].cancel();
+      jest.advanceTimersByTime(100);
+    });
+    expect(result.current[0]).toBe('b');
+    expect(result.current[1].isPending).toBe(false);
+  });
+
+  // This test checks the animation frame mode
+  it('should update once per animation frame with wait: frame', () => {
+    const { result, rerender } = renderHook(({ value }) => useThrottleValue(value, 'frame', { leading: false }), {
+      initialProps: { value: 0 },
+    });
+
+    rerender({ value: 10 });
+    rerender({ value: 20 });
+    expect(result.current[0]).toBe(0);
+
+    act(() => {
+      jest.advanceTimersToNextFrame();
+    });
+    expect(result.current[0]).toBe(20);
+  });
+
+  // This test checks that changing the wait doesn't lose a waiting value
+  it('should keep a waiting value when the wait changes', () => {
+    const { result, rerender } = renderHook(
+      ({ value, wait }) => useThrottleValue(value, wait, { leading: false }),
+      { initialProps: { value: 'a', wait: 100 } }
+    );
+
+    rerender({ value: 'b', wait: 100 });
+    rerender({ value: 'b', wait: 200 });
+    expect(result.current[1].isPending).toBe(true);
+
+    act(() => {
+      jest.advanceTimersByTime(200);
+    });
+    expect(result.current[0]).toBe('b');
+  });
+});
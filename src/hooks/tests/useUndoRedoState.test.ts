@@ -1,5 +1,7 @@
-import { renderHook, act } from '@testing-library/react';
+import { StrictMode } from 'react';
+import { renderHook, act, waitFor } from '@testing-library/react';
 import useUndoRedoState from '../useUndoRedoState';
+import { AsyncStorageAdapter, createMemoryStorage } from '../useStorageState';
 
 describe('useUndoRedoState', () => {
   it('should initialize with initial value', () => {
@@ -83,4 +85,429 @@ describe('useUndoRedoState', () => {
     expect(result.current[1].history).toEqual([0]);
     expect(result.current[1].future).toEqual([2]);
   });
-}); 
\ No newline at end of file
+
+  describe('history limit', () => {
+    it('should drop the oldest steps beyond maxHistory', () => {
+      const { result } = renderHook(() => useUndoRedoState(0, { maxHistory: 2 }));
+      act(() => result.current[1].set(1));
+      act(() => result.current[1].set(2));
+      act(() => result.current[1].set(3));
+      expect(result.current[1].history).toEqual([1, 2]);
+
+      act(() => result.current[1].undo());
+      act(() => result.current[1].undo());
+      act(() => result.current[1].undo());
+      expect(result.current[0]).toBe(1);
+      expect(result.current[1].canUndo).toBe(false);
+    });
+  });
+
+  describe('coalescing', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should merge sets within coalesceWithin into one step', () => {
+      const { result } = renderHook(() => useUndoRedoState('', { coalesceWithin: 500 }));
+      act(() => result.current[1].set('h'));
+      act(() => jest.advanceTimersByTime(200));
+      act(() => result.current[1].set('hi'));
+      act(() => jest.advanceTimersByTime(1000));
+      act(() => result.current[1].set('hi!'));
+
+      expect(result.current[1].history).toEqual(['', 'hi']);
+      act(() => result.current[1].undo());
+      expect(result.current[0]).toBe('hi');
+    });
+
+    it('should merge consecutive sets with the same coalesceKey', () => {
+      const { result } = renderHook(() => useUndoRedoState({ title: '', body: '' }));
+      act(() => result.current[1].set(v => ({ ...v, title: 'A' }), { coalesceKey: 'title' }));
+      act(() => result.current[1].set(v => ({ ...v, title: 'AB' }), { coalesceKey: 'title' }));
+      act(() => result.current[1].set(v => ({ ...v, body: 'x' }), { coalesceKey: 'body' }));
+
+      expect(result.current[1].history).toEqual([
+        { title: '', body: '' },
+        { title: 'AB', body: '' },
+      ]);
+    });
+
+    it('should start a new step after a checkpoint or an undo', () => {
+      const { result } = renderHook(() => useUndoRedoState(0));
+      act(() => result.current[1].set(1, { coalesceKey: 'count' }));
+      act(() => result.current[1].checkpoint());
+      act(() => result.current[1].set(2, { coalesceKey: 'count' }));
+      expect(result.current[1].history).toEqual([0, 1]);
+
+      act(() => result.current[1].undo());
+      act(() => result.current[1].set(3, { coalesceKey: 'count' }));
+      expect(result.current[1].history).toEqual([0, 1]);
+      expect(result.current[0]).toBe(3);
+    });
+  });
+
+  describe('transactions', () => {
+    it('should record all sets of a transaction as one step', () => {
+      const { result } = renderHook(() => useUndoRedoState(0));
+      act(() => result.current[1].set(1));
+      act(() =>
+        result.current[1].transaction(() => {
+          result.current[1].set(v => v + 1);
+          result.current[1].set(v => v * 10);
+        })
+      );
+      expect(result.current[0]).toBe(20);
+
+      act(() => result.current[1].undo());
+      expect(result.current[0]).toBe(1);
+    });
+
+    it('should not merge the next set into the transaction', () => {
+      const { result } = renderHook(() => useUndoRedoState(0));
+      act(() => result.current[1].transaction(() => result.current[1].set(1)));
+      act(() => result.current[1].set(2));
+      expect(result.current[1].history).toEqual([0, 1]);
+    });
+  });
+
+  describe('jump', () => {
+    it('should move anywhere in the timeline', () => {
+      const { result } = renderHook(() => useUndoRedoState('a'));
+      act(() => result.current[1].set('b'));
+      act(() => result.current[1].set('c'));
+      act(() => result.current[1].set('d'));
+
+      act(() => result.current[1].jump(1));
+      expect(result.current[0]).toBe('b');
+      expect(result.current[1].index).toBe(1);
+      expect(result.current[1].history).toEqual(['a']);
+      expect(result.current[1].future).toEqual(['c', 'd']);
+
+      act(() => result.current[1].jump(3));
+      expect(result.current[0]).toBe('d');
+      expect(result.current[1].canRedo).toBe(false);
+    });
+
+    it('should clamp indices outside the timeline', () => {
+      const { result } = renderHook(() => useUndoRedoState('a'));
+      act(() => result.current[1].set('b'));
+
+      act(() => result.current[1].jump(-5));
+      expect(result.current[0]).toBe('a');
+      act(() => result.current[1].jump(10));
+      expect(result.current[0]).toBe('b');
+    });
+  });
+
+  describe('StrictMode', () => {
+    it('should apply each action once', () => {
+      const { result } = renderHook(() => useUndoRedoState(0), { wrapper: StrictMode });
+      act(() => result.current[1].set(v => v + 1));
+      act(() => result.current[1].set(v => v + 1));
+      act(() => result.current[1].set(v => v + 1));
+      expect(result.current[0]).toBe(3);
+
+      act(() => result.current[1].undo());
+      expect(result.current[0]).toBe(2);
+      expect(result.current[1].history).toEqual([0, 1]);
+      expect(result.current[1].future).toEqual([3]);
+
+      act(() => result.current[1].redo());
+      expect(result.current[0]).toBe(3);
+      expect(result.current[1].future).toEqual([]);
+    });
+  });
+
+  describe('patch mode', () => {
+    interface Doc {
+      title: string;
+      tags?: string[];
+      blocks: Array<{ id: number; text: string }>;
+    }
+
+    const initialDoc: Doc = {
+      title: 'Draft',
+      blocks: [
+        { id: 1, text: 'one' },
+        { id: 2, text: 'two' },
+      ],
+    };
+
+    it('should undo and redo nested changes', () => {
+      const { result } = renderHook(() => useUndoRedoState(initialDoc, { mode: 'patch' }));
+      act(() =>
+        result.current[1].set(doc => ({
+          ...doc,
+          blocks: doc.blocks.map(block => (block.id === 1 ? { ...block, text: 'ONE' } : block)),
+        }))
+      );
+      act(() => result.current[1].set(doc => ({ ...doc, title: 'Final', tags: ['a'] })));
+
+      act(() => result.current[1].undo());
+      expect(result.current[0]).toEqual({ ...initialDoc, blocks: [{ id: 1, text: 'ONE' }, initialDoc.blocks[1]] });
+
+      act(() => result.current[1].undo());
+      expect(result.current[0]).toEqual(initialDoc);
+      // Unchanged parts are shared rather than copied
+      expect(result.current[0].blocks[1]).toBe(initialDoc.blocks[1]);
+
+      act(() => result.current[1].redo());
+      act(() => result.current[1].redo());
+      expect(result.current[0]).toEqual({
+        title: 'Final',
+        tags: ['a'],
+        blocks: [{ id: 1, text: 'ONE' }, initialDoc.blocks[1]],
+      });
+    });
+
+    it('should handle arrays that grow and shrink', () => {
+      const { result } = renderHook(() => useUndoRedoState(initialDoc, { mode: 'patch' }));
+      act(() => result.current[1].set(doc => ({ ...doc, blocks: [...doc.blocks, { id: 3, text: 'three' }] })));
+      act(() => result.current[1].set(doc => ({ ...doc, blocks: doc.blocks.slice(2) })));
+      expect(result.current[0].blocks).toEqual([{ id: 3, text: 'three' }]);
+
+      act(() => result.current[1].undo());
+      expect(result.current[0].blocks.map(block => block.id)).toEqual([1, 2, 3]);
+      act(() => result.current[1].undo());
+      expect(result.current[0]).toEqual(initialDoc);
+    });
+
+    it('should rebuild history and future from the patches', () => {
+      const { result } = renderHook(() => useUndoRedoState({ count: 0 }, { mode: 'patch' }));
+      act(() => result.current[1].set({ count: 1 }));
+      act(() => result.current[1].set({ count: 2 }));
+      act(() => result.current[1].set({ count: 3 }));
+      act(() => result.current[1].jump(1));
+
+      expect(result.current[0]).toEqual({ count: 1 });
+      expect(result.current[1].history).toEqual([{ count: 0 }]);
+      expect(result.current[1].future).toEqual([{ count: 2 }, { count: 3 }]);
+    });
+
+    it('should coalesce sets into one patch step', () => {
+      const { result } = renderHook(() => useUndoRedoState({ text: '' }, { mode: 'patch' }));
+      act(() => result.current[1].set({ text: 'a' }, { coalesceKey: 'text' }));
+      act(() => result.current[1].set({ text: 'ab' }, { coalesceKey: 'text' }));
+
+      act(() => result.current[1].undo());
+      expect(result.current[0]).toEqual({ text: '' });
+      expect(result.current[1].canUndo).toBe(false);
+    });
+  });
+
+  describe('persistence', () => {
+    afterEach(() => {
+      window.localStorage.clear();
+    });
+
+    it('should restore the history on the next mount', () => {
+      const first = renderHook(() => useUndoRedoState(0, { persist: { key: 'counter-history' } }));
+      act(() => first.result.current[1].set(1));
+      act(() => first.result.current[1].set(2));
+      act(() => first.result.current[1].undo());
+      first.unmount();
+
+      const { result } = renderHook(() => useUndoRedoState(0, { persist: { key: 'counter-history' } }));
+      expect(result.current[0]).toBe(1);
+      expect(result.current[1].history).toEqual([0]);
+      expect(result.current[1].future).toEqual([2]);
+
+      act(() => result.current[1].undo());
+      expect(result.current[0]).toBe(0);
+    });
+
+    it('should store at most maxHistory steps in each direction', () => {
+      const { result, unmount } = renderHook(() =>
+        useUndoRedoState('a', { persist: { key: 'letters', maxHistory: 2 } })
+      );
+      ['b', 'c', 'd', 'e'].forEach(letter => act(() => result.current[1].set(letter)));
+      act(() => result.current[1].undo());
+      unmount();
+
+      // Snapshot steps are stored as the values between them
+      expect(JSON.parse(window.localStorage.getItem('letters')!)).toEqual({
+        history: ['b', 'c'],
+        present: 'd',
+        future: ['e'],
+      });
+    });
+
+    it('should store and restore the patches in patch mode', () => {
+      const options = { mode: 'patch' as const, persist: { key: 'doc-history' } };
+      const first = renderHook(() => useUndoRedoState({ title: 'a', body: 'long text' }, options));
+      act(() => first.result.current[1].set(doc => ({ ...doc, title: 'b' })));
+      act(() => first.result.current[1].set(doc => ({ ...doc, title: 'c' })));
+      first.unmount();
+
+      // Only the changed field is stored for each step
+      const stored = JSON.parse(window.localStorage.getItem('doc-history')!);
+      expect(stored.past).toEqual([
+        {
+          type: 'patch',
+          undo: [{ op: 'set', path: ['title'], value: 'a' }],
+          redo: [{ op: 'set', path: ['title'], value: 'b' }],
+        },
+        {
+          type: 'patch',
+          undo: [{ op: 'set', path: ['title'], value: 'b' }],
+          redo: [{ op: 'set', path: ['title'], value: 'c' }],
+        },
+      ]);
+
+      const { result } = renderHook(() => useUndoRedoState({ title: '', body: '' }, options));
+      act(() => result.current[1].undo());
+      act(() => result.current[1].undo());
+      expect(result.current[0]).toEqual({ title: 'a', body: 'long text' });
+    });
+
+    it('should restore a snapshot history in patch mode', () => {
+      window.localStorage.setItem(
+        'doc-history',
+        JSON.stringify({ history: [{ title: 'a' }, { title: 'b' }], present: { title: 'c' }, future: [] })
+      );
+      const { result } = renderHook(() =>
+        useUndoRedoState({ title: '' }, { mode: 'patch', persist: { key: 'doc-history' } })
+      );
+
+      act(() => result.current[1].undo());
+      act(() => result.current[1].undo());
+      expect(result.current[0]).toEqual({ title: 'a' });
+    });
+
+    it('should store once changes pause for the delay', () => {
+      jest.useFakeTimers();
+      try {
+        const storage = createMemoryStorage();
+        const setItem = jest.spyOn(storage, 'setItem');
+        const { result } = renderHook(() =>
+          useUndoRedoState(0, { persist: { key: 'counter', storage, delay: 100 } })
+        );
+        // The state on mount is stored once the delay has passed
+        act(() => jest.advanceTimersByTime(100));
+        setItem.mockClear();
+
+        act(() => result.current[1].set(1));
+        act(() => jest.advanceTimersByTime(50));
+        act(() => result.current[1].set(2));
+        act(() => result.current[1].set(3));
+        expect(setItem).not.toHaveBeenCalled();
+
+        act(() => jest.advanceTimersByTime(100));
+        expect(setItem).toHaveBeenCalledTimes(1);
+        expect(JSON.parse(storage.getItem('counter') as string).present).toBe(3);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should store pending changes when the page is hidden', () => {
+      const storage = createMemoryStorage();
+      const { result } = renderHook(() => useUndoRedoState(0, { persist: { key: 'counter', storage } }));
+
+      act(() => result.current[1].set(1));
+      expect(storage.getItem('counter')).toBeNull();
+
+      act(() => {
+        window.dispatchEvent(new Event('pagehide'));
+      });
+      expect(JSON.parse(storage.getItem('counter') as string).present).toBe(1);
+    });
+
+    it('should restore from an async storage once it has loaded', async () => {
+      const values: Record<string, string> = {
+        history: JSON.stringify({ history: [0, 1], present: 2, future: [] }),
+      };
+      const storage: AsyncStorageAdapter = {
+        async: true,
+        getItem: async key => values[key] ?? null,
+        setItem: async (key, value) => {
+          values[key] = value;
+        },
+        removeItem: async key => {
+          delete values[key];
+        },
+      };
+
+      const { result } = renderHook(() => useUndoRedoState(0, { persist: { key: 'history', storage } }));
+      expect(result.current[0]).toBe(0);
+
+      await waitFor(() => expect(result.current[0]).toBe(2));
+      expect(result.current[1].history).toEqual([0, 1]);
+    });
+
+    it('should ignore stored values that are not a history', () => {
+      window.localStorage.setItem('counter-history', '5');
+      const { result } = renderHook(() => useUndoRedoState(0, { persist: { key: 'counter-history' } }));
+      expect(result.current[0]).toBe(0);
+    });
+  });
+
+  describe('keyboard shortcuts', () => {
+    let container: HTMLDivElement;
+
+    beforeEach(() => {
+      container = document.createElement('div');
+      document.body.appendChild(container);
+    });
+
+    afterEach(() => {
+      document.body.innerHTML = '';
+    });
+
+    const press = (target: Element, init: KeyboardEventInit) => {
+      const event = new KeyboardEvent('keydown', { bubbles: true, cancelable: true, ...init });
+      act(() => {
+        target.dispatchEvent(event);
+      });
+      return event;
+    };
+
+    it('should undo and redo with the standard shortcuts inside the target', () => {
+      const button = container.appendChild(document.createElement('button'));
+      const target = { current: container };
+      const { result } = renderHook(() => useUndoRedoState(0, { shortcuts: { target } }));
+      act(() => result.current[1].set(1));
+      act(() => result.current[1].set(2));
+
+      expect(press(button, { key: 'z', ctrlKey: true }).defaultPrevented).toBe(true);
+      expect(result.current[0]).toBe(1);
+      press(button, { key: 'z', metaKey: true });
+      expect(result.current[0]).toBe(0);
+      press(button, { key: 'Z', ctrlKey: true, shiftKey: true });
+      expect(result.current[0]).toBe(1);
+      press(button, { key: 'y', ctrlKey: true });
+      expect(result.current[0]).toBe(2);
+    });
+
+    it('should ignore key presses outside the target', () => {
+      const outside = document.body.appendChild(document.createElement('button'));
+      const target = { current: container };
+      const { result } = renderHook(() => useUndoRedoState(0, { shortcuts: { target } }));
+      act(() => result.current[1].set(1));
+
+      expect(press(outside, { key: 'z', ctrlKey: true }).defaultPrevented).toBe(false);
+      expect(result.current[0]).toBe(1);
+    });
+
+    it('should leave text fields their native undo unless overrideNativeUndo is set', () => {
+      const input = container.appendChild(document.createElement('input'));
+      const target = { current: container };
+      const { result, rerender } = renderHook(
+        ({ overrideNativeUndo }) => useUndoRedoState(0, { shortcuts: { target, overrideNativeUndo } }),
+        { initialProps: { overrideNativeUndo: false } }
+      );
+      act(() => result.current[1].set(1));
+
+      expect(press(input, { key: 'z', ctrlKey: true }).defaultPrevented).toBe(false);
+      expect(result.current[0]).toBe(1);
+
+      rerender({ overrideNativeUndo: true });
+      press(input, { key: 'z', ctrlKey: true });
+      expect(result.current[0]).toBe(0);
+    });
+  });
+});
@@ -1,127 +1,423 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  CacheListener,
+  DEFAULT_CACHE_TIME,
+  fetchShared,
+  getCacheKey,
+  readCache,
+  subscribe,
+} from '../utils/asyncCache';
+import { callWithContext } from '../utils/asyncContext';
+import { subscribeToNetworkStatus } from '../utils/networkStatus';
+import { RetryDelayOption, RetryOption, toError, withRetry } from '../utils/retry';
 
-interface AsyncState<T> {
+export { invalidate, mutate } from '../utils/asyncCache';
+export { withSignal } from '../utils/asyncContext';
+export type { AsyncContext } from '../utils/asyncContext';
+
+export type AsyncStatus = 'idle' | 'pending' | 'success' | 'error' | 'cancelled';
+
+/**
+ * How overlapping `execute` calls are handled:
+ * - `'latest'`: a new call aborts the previous one; only the latest result is kept
+ * - `'first'`: calls made while one is pending are dropped and resolve to `undefined`
+ * - `'queue'`: calls run one after another, in call order
+ * - `'parallel'`: calls run side by side; each result is applied as it settles
+ */
+export type AsyncConcurrency = 'latest' | 'first' | 'queue' | 'parallel';
+
+export interface AsyncState<T, E = Error> {
   data: T | null;
   loading: boolean;
-  error: Error | null;
+  error: E | null;
+  status: AsyncStatus;
+  /** 1-based number of the attempt in progress or last made; 0 before the first call */
+  attempt: number;
 }
 
-interface AsyncOptions {
+type AsyncFunction = (...args: any[]) => Promise<any>;
+
+/** The arguments `execute` accepts: exactly the parameters of `F` */
+export type AsyncArgs<F extends AsyncFunction> = Parameters<F>;
+
+/** The value the async function resolves with */
+export type AsyncResult<F extends AsyncFunction> = Awaited<ReturnType<F>>;
+
+export interface AsyncOptions<T = any, Args extends any[] = any[], E = Error> {
   immediate?: boolean;
-  onSuccess?: (data: any) => void;
-  onError?: (error: Error) => void;
+  onSuccess?: (data: T, args: Args) => void;
+  onError?: (error: E, args: Args) => void;
+  /**
+   * Opts into the shared cache. A string is combined with the serialized arguments;
+   * a function receives the arguments and returns the full cache key.
+   */
+  key?: string | ((...args: Args) => string);
+  /** How long (ms) cached data is served without refetching (default: 0) */
+  staleTime?: number;
+  /** How long (ms) unused cache entries are kept (default: 5 minutes) */
+  cacheTime?: number;
+  /** Number of retries after a failure, or a predicate on the failure count and error (default: 0) */
+  retry?: RetryOption;
+  /** Base delay (ms) for exponential backoff with jitter, or a function of the retry number (default: 1000) */
+  retryDelay?: RetryDelayOption;
+  /** How overlapping `execute` calls are handled (default: `'latest'`) */
+  concurrency?: AsyncConcurrency;
+  /** Refetch every `pollInterval` ms (default: disabled) */
+  pollInterval?: number;
+  /** Keep polling while the document is hidden (default: false) */
+  pollWhenHidden?: boolean;
+  /** Refetch when the window regains focus or the tab becomes visible (default: false) */
+  refetchOnWindowFocus?: boolean;
+  /** Refetch when the browser comes back online (default: false) */
+  refetchOnReconnect?: boolean;
 }
 
+const noop = () => {};
+
+const initialState: AsyncState<never, never> = {
+  data: null,
+  loading: false,
+  error: null,
+  status: 'idle',
+  attempt: 0,
+};
+
 /**
  * useAsync
  *
  * A hook that handles async operations with automatic loading, error, and success states.
  * Provides a clean API for data fetching and other async operations.
  *
+ * The async function receives exactly the arguments given to `execute`. Wrap it with
+ * `withSignal` to also get an `AsyncContext` for each call; its `signal` is aborted when the
+ * call is superseded by a new `execute`, cancelled, or the component unmounts.
+ * The `concurrency` option decides what happens to calls that overlap.
+ *
+ * Passing a `key` shares results between instances through a stale-while-revalidate cache:
+ * fresh data is returned without a request, stale data stays visible while it is refetched,
+ * and concurrent calls for the same key share one request.
+ *
+ * With `retry`, failures are retried after an exponential backoff. Cancelling or unmounting
+ * during the wait stops further attempts.
+ *
+ * `pollInterval`, `refetchOnWindowFocus` and `refetchOnReconnect` repeat the last call with
+ * its arguments once `execute` has run. A trigger is skipped while a call is still pending.
+ *
+ * `execute` takes exactly the parameters of `asyncFunction` and resolves with its result type. Pass `E` to type `error` when the function rejects with a
+ * known error class: `useAsync<typeof fetchUser, ApiError>(fetchUser)`.
+ *
  * @param asyncFunction - The async function to execute
  * @param options - Configuration options
  * @returns [execute, state] - Execute function and current state
  */
-function useAsync<T = any>(
-  asyncFunction: (...args: any[]) => Promise<T>,
-  options: AsyncOptions = {}
+function useAsync<F extends AsyncFunction, E = Error>(
+  asyncFunction: F,
+  options: AsyncOptions<AsyncResult<F>, AsyncArgs<F>, E> = {}
 ): [
-  (...args: any[]) => Promise<T | undefined>,
-  AsyncState<T> & { reset: () => void }
+  (...args: AsyncArgs<F>) => Promise<AsyncResult<F> | undefined>,
+  AsyncState<AsyncResult<F>, E> & { reset: () => void; cancel: () => void }
 ] {
-  const [state, setState] = useState<AsyncState<T>>({
-    data: null,
-    loading: false,
-    error: null,
-  });
+  type T = AsyncResult<F>;
+  type Args = AsyncArgs<F>;
+
+  const [state, setState] = useState<AsyncState<T, E>>(initialState);
 
   const mountedRef = useRef(true);
-  const abortControllerRef = useRef<AbortController | null>(null);
+  const controllersRef = useRef(new Set<AbortController>());
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const executeRef = useRef<(...args: Args) => Promise<T | undefined>>(null!);
+  const lastArgsRef = useRef<Args | null>(null);
+  const subscriptionRef = useRef<{ key: string; unsubscribe: (() => void) | null } | null>(null);
+
+  const {
+    staleTime = 0,
+    cacheTime = DEFAULT_CACHE_TIME,
+    concurrency = 'latest',
+    pollInterval,
+    pollWhenHidden = false,
+    refetchOnWindowFocus = false,
+    refetchOnReconnect = false,
+  } = options;
+
+  // Kept in refs so an inline function, key, retry or callback doesn't recreate `execute` on every render
+  const asyncFunctionRef = useRef(asyncFunction);
+  asyncFunctionRef.current = asyncFunction;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // Receives data and invalidations for the cache key this instance last executed
+  const handleCacheEvent = useCallback<CacheListener<T>>(event => {
+    if (!mountedRef.current) return;
+
+    if (event.type === 'invalidate') {
+      executeRef.current(...(lastArgsRef.current ?? ([] as unknown as Args))).catch(noop);
+      return;
+    }
+
+    setState(prev => ({
+      ...prev,
+      data: event.data,
+      ...(prev.status === 'pending' ? {} : { error: null, status: 'success' as const }),
+    }));
+  }, []);
+
+  const subscribeTo = useCallback(
+    (cacheKey: string) => {
+      const current = subscriptionRef.current;
+      if (current && current.key === cacheKey && current.unsubscribe) return;
+
+      current?.unsubscribe?.();
+      subscriptionRef.current = {
+        key: cacheKey,
+        unsubscribe: subscribe(cacheKey, handleCacheEvent, cacheTime),
+      };
+    },
+    [handleCacheEvent, cacheTime]
+  );
 
   // Reset state
   const reset = useCallback(() => {
-    setState({
-      data: null,
+    setState(initialState);
+  }, []);
+
+  // Abort every in-flight or queued call and mark the state as cancelled
+  const cancel = useCallback(() => {
+    const controllers = controllersRef.current;
+    if (controllers.size === 0) return;
+
+    controllers.forEach(controller => controller.abort());
+    controllers.clear();
+
+    setState(prev => ({
+      ...prev,
       loading: false,
-      error: null,
-    });
+      status: 'cancelled',
+    }));
   }, []);
 
-  // Execute the async function
-  const execute = useCallback(
-    async (...args: any[]): Promise<T | undefined> => {
-      // Cancel previous request if it exists
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
+  // Runs one call to completion, once the previous queued call has settled
+  const perform = useCallback(
+    async (
+      args: Args,
+      controller: AbortController,
+      previous: Promise<unknown> | null
+    ): Promise<T | undefined> => {
+      const controllers = controllersRef.current;
+
+      if (previous) {
+        await previous;
+        if (controller.signal.aborted) return undefined;
       }
 
-      // Create new abort controller
-      abortControllerRef.current = new AbortController();
+      const { key, retry, retryDelay, onSuccess, onError } = optionsRef.current;
+      const fn = asyncFunctionRef.current;
+      const cacheKey = key !== undefined ? getCacheKey(key, args) : null;
+      const cached = cacheKey !== null ? readCache<T>(cacheKey, staleTime) : undefined;
+
+      if (cacheKey !== null) {
+        subscribeTo(cacheKey);
+
+        // Serve fresh data straight from the cache
+        if (cached && !cached.stale) {
+          controllers.delete(controller);
+          setState({
+            data: cached.data,
+            loading: controllers.size > 0,
+            error: null,
+            status: controllers.size > 0 ? 'pending' : 'success',
+            attempt: 0,
+          });
+          onSuccess?.(cached.data, args);
+          return cached.data;
+        }
+      }
 
+      // Keep showing stale cached data (or the previous data) while revalidating
       setState(prev => ({
         ...prev,
+        data: cached ? cached.data : prev.data,
         loading: true,
         error: null,
+        status: 'pending',
       }));
 
+      // Runs the function with retries, reporting each attempt while this call is current
+      const run = (signal: AbortSignal) =>
+        withRetry<T>(() => callWithContext(fn, args, { signal }), {
+          retry,
+          retryDelay,
+          signal,
+          onAttempt: attempt => {
+            if (mountedRef.current && !controller.signal.aborted) {
+              setState(prev => ({ ...prev, attempt }));
+            }
+          },
+        });
+
       try {
-        const result = await asyncFunction(...args);
+        const result =
+          cacheKey !== null
+            ? await fetchShared(cacheKey, run, controller.signal, cacheTime)
+            : await run(controller.signal);
+
+        // Ignore results of requests that were superseded or cancelled meanwhile
+        if (controller.signal.aborted) {
+          return undefined;
+        }
+        controllers.delete(controller);
 
         // Only update state if component is still mounted
         if (mountedRef.current) {
-          setState({
+          // Other queued or parallel calls keep the state pending
+          setState(prev => ({
             data: result,
-            loading: false,
+            loading: controllers.size > 0,
             error: null,
-          });
+            status: controllers.size > 0 ? 'pending' : 'success',
+            attempt: prev.attempt,
+          }));
 
-          options.onSuccess?.(result);
+          onSuccess?.(result, args);
         }
 
         return result;
       } catch (error) {
         // Don't update state if request was aborted
-        if (error instanceof Error && error.name === 'AbortError') {
+        if (controller.signal.aborted || (error instanceof Error && error.name === 'AbortError')) {
+          controllers.delete(controller);
           return undefined;
         }
+        controllers.delete(controller);
 
         // Only update state if component is still mounted
         if (mountedRef.current) {
-          const errorObj = error instanceof Error ? error : new Error(String(error));
-          
-          setState({
-            data: null,
-            loading: false,
+          const errorObj = toError(error) as E;
+
+          // Cached instances keep their last good data visible on error
+          setState(prev => ({
+            data: cacheKey !== null ? prev.data : null,
+            loading: controllers.size > 0,
             error: errorObj,
-          });
+            status: 'error',
+            attempt: prev.attempt,
+          }));
 
-          options.onError?.(errorObj);
+          onError?.(errorObj, args);
         }
 
         throw error;
       }
     },
-    [asyncFunction, options.onSuccess, options.onError]
+    [staleTime, cacheTime, subscribeTo]
+  );
+
+  // Execute the async function
+  const execute = useCallback(
+    (...args: Args): Promise<T | undefined> => {
+      const controllers = controllersRef.current;
+
+      // Drop the call while another one is still running
+      if (concurrency === 'first' && controllers.size > 0) {
+        return Promise.resolve(undefined);
+      }
+
+      // Cancel previous requests so only the latest call can update state
+      if (concurrency === 'latest') {
+        controllers.forEach(controller => controller.abort());
+        controllers.clear();
+      }
+
+      const controller = new AbortController();
+      controllers.add(controller);
+      lastArgsRef.current = args;
+
+      if (concurrency !== 'queue') {
+        return perform(args, controller, null);
+      }
+
+      // Chain onto the previous call; a failure must not stall the queue
+      const call = perform(args, controller, queueRef.current);
+      queueRef.current = call.then(noop, noop);
+      return call;
+    },
+    [perform, concurrency]
   );
+  executeRef.current = execute;
+
+  // Repeat the last call for polling and refetch triggers
+  const refetch = useCallback(() => {
+    if (lastArgsRef.current === null || controllersRef.current.size > 0) return;
+    executeRef.current(...lastArgsRef.current).catch(noop);
+  }, []);
 
   // Execute immediately if requested
   useEffect(() => {
     if (options.immediate) {
-      execute();
+      // `immediate` calls without arguments
+      execute(...([] as unknown as Args));
     }
   }, [execute, options.immediate]);
 
+  // Poll, skipping ticks while the document is hidden
+  useEffect(() => {
+    if (!pollInterval || pollInterval <= 0) return;
+
+    const interval = setInterval(() => {
+      if (!pollWhenHidden && typeof document !== 'undefined' && document.visibilityState === 'hidden') {
+        return;
+      }
+      refetch();
+    }, pollInterval);
+
+    return () => clearInterval(interval);
+  }, [pollInterval, pollWhenHidden, refetch]);
+
+  // Refetch when the window regains focus or the tab becomes visible again
+  useEffect(() => {
+    if (!refetchOnWindowFocus || typeof window === 'undefined') return;
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        refetch();
+      }
+    };
+
+    window.addEventListener('focus', refetch);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('focus', refetch);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [refetchOnWindowFocus, refetch]);
+
+  // Refetch when the browser comes back online; only subscribed when asked for
+  useEffect(() => {
+    if (!refetchOnReconnect) return;
+
+    return subscribeToNetworkStatus(online => {
+      if (online) refetch();
+    });
+  }, [refetchOnReconnect, refetch]);
+
   // Cleanup on unmount
   useEffect(() => {
+    mountedRef.current = true;
+    if (subscriptionRef.current) {
+      subscribeTo(subscriptionRef.current.key);
+    }
     return () => {
       mountedRef.current = false;
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
+      controllersRef.current.forEach(controller => controller.abort());
+      controllersRef.current.clear();
+      if (subscriptionRef.current) {
+        subscriptionRef.current.unsubscribe?.();
+        subscriptionRef.current.unsubscribe = null;
       }
     };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  return [execute, { ...state, reset }];
+  return [execute, { ...state, reset, cancel }];
 }
 
-export default useAsync; 
\ No newline at end of file
+export default useAsync;
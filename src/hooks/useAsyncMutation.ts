@@ -0,0 +1,95 @@
+import { useCallback, useRef } from 'react';
+import useAsync, { AsyncArgs, AsyncResult, AsyncState } from './useAsync';
+import { callWithContext, withSignal } from '../utils/asyncContext';
+import { applyOptimistic, invalidate } from '../utils/asyncCache';
+import { toError } from '../utils/retry';
+
+type AsyncFunction = (...args: any[]) => Promise<any>;
+
+export interface AsyncMutationOptions<TData, TResult, Args extends any[], E = Error> {
+  /** Exact cache key of the `useAsync` data this mutation edits, or a function of the arguments */
+  key?: string | ((...args: Args) => string);
+  /**
+   * Returns the optimistic value for the cached data, applied before the mutation runs.
+   * Must be pure: it is replayed on top of newer data while the mutation is pending.
+   */
+  onMutate?: (current: TData, args: Args) => TData;
+  onSuccess?: (result: TResult, args: Args) => void;
+  /** Called after the optimistic update has been rolled back */
+  onError?: (error: E, args: Args) => void;
+  /** Called after `onSuccess` or `onError` */
+  onSettled?: (result: TResult | undefined, error: E | null, args: Args) => void;
+  /** Invalidate `key` once the mutation settles so mounted `useAsync` instances refetch (default: false) */
+  invalidateOnSettled?: boolean;
+}
+
+/**
+ * useAsyncMutation
+ *
+ * A companion to `useAsync` for writes. Given the `key` of data loaded through `useAsync`,
+ * `onMutate` applies an optimistic value to it before the mutation runs. On failure only that
+ * mutation's update is rolled back, so concurrent mutations keep their own optimistic changes.
+ *
+ * Mutations run in parallel; the returned state has the same shape as `useAsync`'s.
+ * Callbacks still run if the component unmounts while a mutation is in flight.
+ *
+ * @param mutationFn - The async function performing the write
+ * @param options - Configuration options
+ * @returns [mutate, state] - Mutate function and current state
+ */
+function useAsyncMutation<F extends AsyncFunction, TData = any, E = Error>(
+  mutationFn: F,
+  options: AsyncMutationOptions<TData, AsyncResult<F>, AsyncArgs<F>, E> = {}
+): [
+  (...args: AsyncArgs<F>) => Promise<AsyncResult<F> | undefined>,
+  AsyncState<AsyncResult<F>, E> & { reset: () => void; cancel: () => void }
+] {
+  type TResult = AsyncResult<F>;
+  type Args = AsyncArgs<F>;
+
+  // Callbacks are read at call time so inline options don't recreate `mutate`
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // The context from useAsync is passed on to `mutationFn` if it asks for one
+  const run = useCallback(
+    withSignal(context => async (...args: Args): Promise<TResult> => {
+      const { key, onMutate, onSuccess, onError, onSettled, invalidateOnSettled } =
+        optionsRef.current;
+
+      const cacheKey = key === undefined ? null : typeof key === 'function' ? key(...args) : key;
+      const optimistic =
+        cacheKey !== null && onMutate
+          ? applyOptimistic<TData>(cacheKey, current => onMutate(current, args))
+          : null;
+
+      try {
+        const result: TResult = await callWithContext(mutationFn, args, context);
+        optimistic?.commit();
+        onSuccess?.(result, args);
+        onSettled?.(result, null, args);
+        return result;
+      } catch (error) {
+        optimistic?.rollback();
+        const errorObj = toError(error) as E;
+        onError?.(errorObj, args);
+        onSettled?.(undefined, errorObj, args);
+        throw error;
+      } finally {
+        if (cacheKey !== null && invalidateOnSettled) {
+          invalidate(cacheKey);
+        }
+      }
+    }),
+    [mutationFn]
+  );
+
+  const [execute, state] = useAsync(run, { concurrency: 'parallel' });
+
+  return [
+    execute as (...args: Args) => Promise<TResult | undefined>,
+    state as AsyncState<TResult, E> & { reset: () => void; cancel: () => void },
+  ];
+}
+
+export default useAsyncMutation;
@@ -1,4 +1,94 @@
-import { useEffect, useRef, RefObject } from 'react';
+import { useEffect, useMemo, useRef, RefObject, SyntheticEvent } from 'react';
+
+/** Events that can count as a click outside; `pointerdown` covers mouse, touch and pen at once */
+export type ClickOutsideEvent =
+  | 'mousedown'
+  | 'mouseup'
+  | 'touchstart'
+  | 'touchend'
+  | 'pointerdown'
+  | 'pointerup'
+  | 'click';
+
+/**
+ * Events to leave alone: CSS selectors matched against the event's path (the target and its
+ * ancestors, across shadow roots), or a predicate that returns true for events to ignore
+ */
+export type ClickOutsideIgnore = string | string[] | ((event: MouseEvent | TouchEvent) => boolean);
+
+export interface ClickOutsideOptions {
+  /** Whether the listener should be active (default: true) */
+  enabled?: boolean;
+  /** Clicks to ignore, e.g. on a toggle button that handles them itself */
+  ignore?: ClickOutsideIgnore;
+  /** Events to listen to (default: `['mousedown', 'touchstart']`) */
+  events?: ClickOutsideEvent[];
+  /**
+   * Only count presses that start and end outside, e.g. not a text selection dragged from inside
+   * to outside. The handler then runs on the release: `mouseup`, `touchend`, `pointerup` or
+   * `click` (default: false)
+   */
+  requireUpOutside?: boolean;
+  /**
+   * Listen in the capture phase, so `stopPropagation()` inside the app doesn't hide clicks from
+   * the hook. The handler then runs right after the event has been dispatched (default: false)
+   */
+  capture?: boolean;
+}
+
+/**
+ * Spread on the element to count events from its whole React tree as inside, including
+ * content it renders into portals
+ */
+export interface ClickOutsideProps {
+  onMouseDownCapture: (event: SyntheticEvent) => void;
+  onMouseUpCapture: (event: SyntheticEvent) => void;
+  onTouchStartCapture: (event: SyntheticEvent) => void;
+  onTouchEndCapture: (event: SyntheticEvent) => void;
+  onPointerDownCapture: (event: SyntheticEvent) => void;
+  onPointerUpCapture: (event: SyntheticEvent) => void;
+  onClickCapture: (event: SyntheticEvent) => void;
+}
+
+type ElementRef = RefObject<HTMLElement | null>;
+
+const DEFAULT_EVENTS: ClickOutsideEvent[] = ['mousedown', 'touchstart'];
+
+// The press and release of the interaction each event belongs to
+const INTERACTIONS: Record<ClickOutsideEvent, { press: ClickOutsideEvent; release: ClickOutsideEvent }> = {
+  mousedown: { press: 'mousedown', release: 'mouseup' },
+  mouseup: { press: 'mousedown', release: 'mouseup' },
+  touchstart: { press: 'touchstart', release: 'touchend' },
+  touchend: { press: 'touchstart', release: 'touchend' },
+  pointerdown: { press: 'pointerdown', release: 'pointerup' },
+  pointerup: { press: 'pointerdown', release: 'pointerup' },
+  click: { press: 'mousedown', release: 'click' },
+};
+
+// Browsers emulate mouse events after a touch; these are skipped when touch events are handled
+const EMULATED_MOUSE_WINDOW = 1000;
+
+// The event's path, across shadow roots; events in shadow DOM are retargeted to the host
+function eventPath(event: Event): EventTarget[] {
+  if (typeof event.composedPath === 'function') {
+    const path = event.composedPath();
+    if (path.length > 0) return path;
+  }
+
+  const path: EventTarget[] = [];
+  for (let node = event.target as Node | null; node; node = node.parentNode) {
+    path.push(node);
+  }
+  return path;
+}
+
+function isIgnored(event: MouseEvent | TouchEvent, path: EventTarget[], ignore?: ClickOutsideIgnore): boolean {
+  if (!ignore) return false;
+  if (typeof ignore === 'function') return ignore(event);
+
+  const selectors = Array.isArray(ignore) ? ignore : [ignore];
+  return path.some(node => node instanceof Element && selectors.some(selector => node.matches(selector)));
+}
 
 /**
  * useClickOutside
@@ -6,36 +96,163 @@ import { useEffect, useRef, RefObject } from 'react';
  * A hook that detects clicks outside of a specified element.
  * Useful for closing modals, dropdowns, or any UI that should close when clicking outside.
  *
- * @param ref - Ref object pointing to the element to monitor
+ * Accepts one ref or an array of refs, e.g. a trigger and a menu rendered elsewhere; a click
+ * inside any of them counts as inside. Containment is checked with `composedPath()`, so clicks
+ * inside shadow DOM count for the element hosting it. Spread the returned props on the element
+ * to also count clicks in its React tree, such as portals it renders. Clicks matching `ignore`
+ * are skipped.
+ *
+ * Listens to `mousedown` and `touchstart` by default, skipping the mouse events browsers emulate
+ * after a touch; `events` picks others, such as `pointerdown` or `click`. With `requireUpOutside`,
+ * a press counts only if it also ends outside, so dragging a text selection out of the element
+ * doesn't close it. With `capture`, events are seen even if the app stops their propagation.
+ *
+ * @param ref - Ref object, or array of ref objects, pointing to the elements to monitor
  * @param handler - Function to call when a click outside is detected
- * @param enabled - Whether the listener should be active (default: true)
+ * @param options - Whether the listener is active (default: true), or configuration options
+ * @returns Props to spread on the element so clicks in its portals count as inside
  */
 function useClickOutside<T extends HTMLElement>(
-  ref: RefObject<T | null>,
+  ref: RefObject<T | null> | ElementRef[],
   handler: (event: MouseEvent | TouchEvent) => void,
-  enabled: boolean = true
-): void {
+  options: boolean | ClickOutsideOptions = true
+): ClickOutsideProps {
+  const {
+    enabled = true,
+    events = DEFAULT_EVENTS,
+    requireUpOutside = false,
+    capture = false,
+  } = typeof options === 'boolean' ? { enabled: options } : options;
+  const eventsKey = events.join(' ');
+
+  // Kept in refs so inline arrays and options don't re-attach the listeners
+  const latest = useRef({ ref, handler, options });
+  latest.current = { ref, handler, options };
+
+  // Native events seen by the element's React tree
+  const reactTreeEventsRef = useRef(new WeakSet<Event>());
+
   useEffect(() => {
     if (!enabled) return;
 
-    const listener = (event: MouseEvent | TouchEvent) => {
-      // Do nothing if clicking ref's element or descendent elements
-      if (ref.current && ref.current.contains(event.target as Node)) {
-        return;
+    const eventNames = eventsKey.split(' ') as ClickOutsideEvent[];
+    const handlesTouch = eventNames.some(name => name.startsWith('touch'));
+    let lastTouch = -Infinity;
+    // Per interaction (by release event): whether its press started outside
+    const pressedOutside = new Map<ClickOutsideEvent, boolean>();
+
+    // Checks the DOM while the event is dispatched, since its path is only available then
+    const isOutsideElements = (event: MouseEvent | TouchEvent) => {
+      const { ref: refs, options: currentOptions } = latest.current;
+      const path = eventPath(event);
+      const elements = (Array.isArray(refs) ? refs : [refs]).map(elementRef => elementRef.current);
+
+      // Do nothing if clicking the elements or their descendants
+      if (elements.some(element => element && path.includes(element))) {
+        return false;
       }
+      return !(typeof currentOptions === 'object' && isIgnored(event, path, currentOptions.ignore));
+    };
+
+    // Deferred callbacks still waiting; dropped when the listeners are removed
+    let active = true;
+    const timers = new Set<ReturnType<typeof setTimeout>>();
 
-      handler(event);
+    // React handles events after capture listeners on the document; wait for it to mark its tree
+    const afterDispatch = (callback: () => void) => {
+      if (capture) {
+        const timer = setTimeout(() => {
+          timers.delete(timer);
+          if (active) callback();
+        }, 0);
+        timers.add(timer);
+      } else {
+        callback();
+      }
     };
 
-    // Add event listeners
-    document.addEventListener('mousedown', listener);
-    document.addEventListener('touchstart', listener);
+    const isEmulatedMouse = (event: Event) =>
+      handlesTouch && /^(mouse|click)/.test(event.type) && Date.now() - lastTouch < EMULATED_MOUSE_WINDOW;
+
+    // Which roles each DOM event plays: counted directly, or as the press/release of an interaction
+    const roles = new Map<ClickOutsideEvent, Array<(event: MouseEvent | TouchEvent) => void>>();
+    const addRole = (name: ClickOutsideEvent, role: (event: MouseEvent | TouchEvent) => void) => {
+      roles.set(name, [...(roles.get(name) ?? []), role]);
+    };
+
+    eventNames.forEach(name => {
+      if (!requireUpOutside) {
+        addRole(name, event => {
+          if (!isOutsideElements(event)) return;
+          afterDispatch(() => {
+            if (!reactTreeEventsRef.current.has(event)) latest.current.handler(event);
+          });
+        });
+        return;
+      }
+
+      const { press, release } = INTERACTIONS[name];
+      addRole(press, event => {
+        const outside = isOutsideElements(event);
+        afterDispatch(() => pressedOutside.set(release, outside && !reactTreeEventsRef.current.has(event)));
+      });
+      addRole(release, event => {
+        const outside = isOutsideElements(event);
+        afterDispatch(() => {
+          const startedOutside = pressedOutside.get(release);
+          pressedOutside.delete(release);
+          if (startedOutside && outside && !reactTreeEventsRef.current.has(event)) {
+            latest.current.handler(event);
+          }
+        });
+      });
+    });
+
+    const listeners = [...roles].map(([name, handlers]) => {
+      const listener = (event: Event) => {
+        if (event.type.startsWith('touch')) {
+          lastTouch = Date.now();
+        } else if (isEmulatedMouse(event)) {
+          return;
+        }
+        handlers.forEach(handle => handle(event as MouseEvent | TouchEvent));
+      };
+      // Add event listeners
+      if (capture) {
+        document.addEventListener(name, listener, true);
+      } else {
+        document.addEventListener(name, listener);
+      }
+      return { name, listener };
+    });
 
     return () => {
-      document.removeEventListener('mousedown', listener);
-      document.removeEventListener('touchstart', listener);
+      active = false;
+      timers.forEach(clearTimeout);
+      listeners.forEach(({ name, listener }) => {
+        if (capture) {
+          document.removeEventListener(name, listener, true);
+        } else {
+          document.removeEventListener(name, listener);
+        }
+      });
+    };
+  }, [enabled, eventsKey, requireUpOutside, capture]);
+
+  return useMemo(() => {
+    const markInside = (event: SyntheticEvent) => {
+      reactTreeEventsRef.current.add(event.nativeEvent);
+    };
+    return {
+      onMouseDownCapture: markInside,
+      onMouseUpCapture: markInside,
+      onTouchStartCapture: markInside,
+      onTouchEndCapture: markInside,
+      onPointerDownCapture: markInside,
+      onPointerUpCapture: markInside,
+      onClickCapture: markInside,
     };
-  }, [ref, handler, enabled]);
+  }, []);
 }
 
-export default useClickOutside; 
\ No newline at end of file
+export default useClickOutside;
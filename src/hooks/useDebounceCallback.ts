@@ -1,4 +1,7 @@
-import { useRef, useEffect, useCallback } from 'react';
+import { useRef, useEffect, useMemo } from 'react';
+import { createDebounced, DebouncedFunction, DebounceOptions } from '../utils/timing';
+
+export type { DebouncedFunction, DebounceOptions } from '../utils/timing';
 
 /**
  * useDebounceCallback
@@ -6,41 +9,47 @@ import { useRef, useEffect, useCallback } from 'react';
  * Returns a debounced version of the provided callback function. The debounced function
  * will only be invoked after the specified delay has elapsed since the last call.
  *
+ * Options follow lodash's `debounce`: `leading` also invokes on the first call of a burst,
+ * `trailing: false` skips the invocation after it, and `maxWait` caps how long calls can be
+ * delayed while they keep coming. The debounced function returns the result of the last
+ * invocation, and has `cancel()`, `flush()` and `isPending()` for the pending one.
+ *
  * @param callback - The function to debounce.
  * @param delay - The debounce delay in milliseconds.
- * @returns A debounced callback function.
+ * @param options - Leading/trailing invocation and the maximum wait.
+ * @returns A debounced callback function with `cancel`, `flush` and `isPending`.
  */
 function useDebounceCallback<T extends (...args: any[]) => any>(
   callback: T,
-  delay: number
-): (...args: Parameters<T>) => void {
+  delay: number,
+  options: DebounceOptions = {}
+): DebouncedFunction<T> {
+  const { leading, trailing, maxWait } = options;
   const callbackRef = useRef(callback);
-  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Update ref if callback changes
   useEffect(() => {
     callbackRef.current = callback;
   }, [callback]);
 
-  const debouncedFn = useCallback((...args: Parameters<T>) => {
-    if (timeoutRef.current) {
-      clearTimeout(timeoutRef.current);
-    }
-    timeoutRef.current = setTimeout(() => {
-      callbackRef.current(...args);
-    }, delay);
-  }, [delay]);
+  const debouncedFn = useMemo(
+    () =>
+      createDebounced(((...args: Parameters<T>) => callbackRef.current(...args)) as T, delay, {
+        leading,
+        trailing,
+        maxWait,
+      }),
+    [delay, leading, trailing, maxWait]
+  );
 
-  // Cleanup on unmount
+  // Cleanup on unmount, and when a new delay or options replace the function
   useEffect(() => {
     return () => {
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current);
-      }
+      debouncedFn.cancel();
     };
-  }, []);
+  }, [debouncedFn]);
 
   return debouncedFn;
 }
 
-export default useDebounceCallback; 
\ No newline at end of file
+export default useDebounceCallback;
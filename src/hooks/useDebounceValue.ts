@@ -1,4 +1,23 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
+import useDebounceCallback from "./useDebounceCallback";
+import { DebounceOptions } from "../utils/timing";
+
+export interface DebounceValueOptions<T> extends DebounceOptions {
+  /**
+   * Returns true if two values are the same, so a new value equal to the previous one doesn't
+   * restart the delay (default: `Object.is`)
+   */
+  equalityFn?: (previous: T, next: T) => boolean;
+}
+
+export interface DebounceValueControls {
+  /** Whether a newer value is waiting for the delay to pass */
+  isPending: boolean;
+  /** Applies the waiting value now */
+  flush: () => void;
+  /** Drops the waiting value, keeping the current debounced value */
+  cancel: () => void;
+}
 
 /**
  * useDebounceValue
@@ -6,17 +25,61 @@ import { useState, useEffect } from "react";
  * Returns a debounced version of the input value that only updates after the specified delay.
  * Useful for delaying actions like API calls or filtering until the user has stopped typing.
  *
+ * Also returns whether a newer value is waiting, e.g. for a "typing…" indicator, with `flush()`
+ * and `cancel()` for it. With `leading`, the first change of a burst is applied right away.
+ * Values that `equalityFn` finds equal to the previous one, such as a structurally equal object
+ * created on every render, don't count as changes.
+ *
  * @param value - The value to debounce.
  * @param delay - The debounce delay in milliseconds.
- * @returns The debounced value, which only updates after the delay has passed without changes.
+ * @param options - Leading/trailing updates and the maximum wait, as in `useDebounceCallback`,
+ *   and the equality function.
+ * @returns The debounced value, which only updates after the delay has passed without changes,
+ *   and controls for a waiting update.
  */
-export function useDebounceValue<T>(value: T, delay: number): T {
+export function useDebounceValue<T>(
+  value: T,
+  delay: number,
+  options: DebounceValueOptions<T> = {}
+): [T, DebounceValueControls] {
+  const { equalityFn = Object.is, ...debounceOptions } = options;
   const [debounced, setDebounced] = useState(value);
+  const [isPending, setIsPending] = useState(false);
+
+  const update = useDebounceCallback((next: T) => {
+    // Wrapped, so function values are stored rather than called as updaters
+    setDebounced(() => next);
+    setIsPending(false);
+  }, delay, debounceOptions);
+
+  // What the effect last passed on, so re-renders with an equal value don't restart the delay
+  const passedRef = useRef({ value, update });
+  const equalityFnRef = useRef(equalityFn);
+  equalityFnRef.current = equalityFn;
 
   useEffect(() => {
-    const handler = setTimeout(() => setDebounced(value), delay);
-    return () => clearTimeout(handler);
-  }, [value, delay]);
+    const passed = passedRef.current;
+    // A new delay or options cancel the waiting update; pass the value on again
+    const replaced = passed.update !== update && isPending;
+    if (equalityFnRef.current(passed.value, value) && !replaced) {
+      passedRef.current = { value: passed.value, update };
+      return;
+    }
+
+    passedRef.current = { value, update };
+    update(value);
+    setIsPending(update.isPending());
+  }, [value, update, isPending]);
+
+  const flush = useCallback(() => {
+    update.flush();
+    setIsPending(false);
+  }, [update]);
+
+  const cancel = useCallback(() => {
+    update.cancel();
+    setIsPending(false);
+  }, [update]);
 
-  return debounced;
-}
\ No newline at end of file
+  return [debounced, { isPending, flush, cancel }];
+}
@@ -0,0 +1,129 @@
+import {
+  createContext,
+  ReactNode,
+  RefObject,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from 'react';
+import useClickOutside, { ClickOutsideOptions, ClickOutsideProps } from './useClickOutside';
+import { compareLayerOrder, LayerOrder, useLayerOrder } from '../utils/layerOrder';
+
+/**
+ * Passed to `onPointerDownOutside`; call `preventDefault()` to keep the layer open. The
+ * original event is in `detail.originalEvent`.
+ */
+export type PointerDownOutsideEvent = CustomEvent<{ originalEvent: MouseEvent | TouchEvent }>;
+
+export interface DismissableLayerOptions extends Omit<ClickOutsideOptions, 'enabled'> {
+  /** Called when the layer should close: on a click outside it, or on Escape */
+  onDismiss: () => void;
+  /** Called before dismissing on a click outside; `preventDefault()` keeps the layer open */
+  onPointerDownOutside?: (event: PointerDownOutsideEvent) => void;
+  /** Called before dismissing on Escape; `preventDefault()` keeps the layer open */
+  onEscapeKeyDown?: (event: KeyboardEvent) => void;
+  /** Whether the layer is open; closed layers leave the stack (default: true) */
+  enabled?: boolean;
+}
+
+// Open layers, bottom first, and the events a layer has already responded to
+interface LayerStack {
+  layers: LayerOrder[];
+  handled: WeakSet<Event>;
+}
+
+const createLayerStack = (): LayerStack => ({ layers: [], handled: new WeakSet() });
+
+// Layers outside a provider share one stack
+const DismissableLayerContext = createContext<LayerStack>(createLayerStack());
+
+/**
+ * Gives the layers inside it their own stack, e.g. for a separate React root or a test.
+ * Layers work without a provider, sharing one stack per page.
+ */
+export function DismissableLayerProvider({ children }: { children?: ReactNode }) {
+  const [stack] = useState(createLayerStack);
+  return <DismissableLayerContext.Provider value={stack}>{children}</DismissableLayerContext.Provider>;
+}
+
+/**
+ * useDismissableLayer
+ *
+ * Closes a popover, menu or dialog on a click outside it or on Escape, taking nested layers
+ * into account: open layers are kept in a stack, and each interaction only dismisses the
+ * topmost one. A dropdown opened from a modal closes first, and the modal stays open.
+ *
+ * `onPointerDownOutside` and `onEscapeKeyDown` run before the layer is dismissed and can call
+ * `preventDefault()` to keep it open. Other options are passed to `useClickOutside`.
+ *
+ * @param ref - Ref object pointing to the layer's element, or an array of refs (e.g. with its trigger)
+ * @param options - Dismiss callback, outside click and Escape callbacks, and useClickOutside options
+ * @returns Props to spread on the layer's element so clicks in its portals count as inside
+ */
+function useDismissableLayer<T extends HTMLElement>(
+  ref: RefObject<T | null> | RefObject<HTMLElement | null>[],
+  options: DismissableLayerOptions
+): ClickOutsideProps {
+  const { onDismiss, onPointerDownOutside, onEscapeKeyDown, enabled = true, ...clickOutsideOptions } = options;
+  const stack = useContext(DismissableLayerContext);
+  const layer = useLayerOrder(enabled);
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // Layers are stacked in the order they open
+  useEffect(() => {
+    if (!enabled) return;
+    stack.layers.push(layer);
+    stack.layers.sort(compareLayerOrder);
+    return () => {
+      const index = stack.layers.indexOf(layer);
+      if (index !== -1) stack.layers.splice(index, 1);
+    };
+  }, [enabled, stack, layer]);
+
+  // Claims the event for this layer if it is the topmost one and no layer has responded yet
+  const claim = useCallback(
+    (event: Event) => {
+      if (stack.handled.has(event) || stack.layers[stack.layers.length - 1] !== layer) return false;
+      stack.handled.add(event);
+      return true;
+    },
+    [stack, layer]
+  );
+
+  const insideProps = useClickOutside(
+    ref,
+    event => {
+      if (!claim(event)) return;
+
+      const outsideEvent: PointerDownOutsideEvent = new CustomEvent('pointerdownoutside', {
+        cancelable: true,
+        detail: { originalEvent: event },
+      });
+      optionsRef.current.onPointerDownOutside?.(outsideEvent);
+      if (!outsideEvent.defaultPrevented) optionsRef.current.onDismiss();
+    },
+    { ...clickOutsideOptions, enabled }
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape' || !claim(event)) return;
+
+      optionsRef.current.onEscapeKeyDown?.(event);
+      if (!event.defaultPrevented) optionsRef.current.onDismiss();
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [enabled, claim]);
+
+  return insideProps;
+}
+
+export default useDismissableLayer;
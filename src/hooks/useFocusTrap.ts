@@ -0,0 +1,169 @@
+import { useEffect, useRef, useState, RefObject } from 'react';
+import { compareLayerOrder, LayerOrder, useLayerOrder } from '../utils/layerOrder';
+
+export interface FocusTrapOptions {
+  /** Whether the trap is active (default: true) */
+  enabled?: boolean;
+  /** Element to focus when the trap activates (default: the first tabbable element) */
+  initialFocus?: RefObject<HTMLElement | null>;
+  /** Whether to move focus back to the previously focused element on deactivation (default: true) */
+  restoreFocus?: boolean;
+}
+
+interface Trap {
+  /** Where the trap goes in the stack */
+  order: LayerOrder;
+  /** The element focus is kept in */
+  container: RefObject<HTMLElement | null>;
+  /** Focused element to return to on deactivation */
+  returnFocus: HTMLElement | null;
+}
+
+const TABBABLE = [
+  'a[href]',
+  'area[href]',
+  'button',
+  'input:not([type="hidden"])',
+  'select',
+  'textarea',
+  'iframe',
+  'audio[controls]',
+  'video[controls]',
+  'summary',
+  '[contenteditable]:not([contenteditable="false"])',
+  '[tabindex]',
+].join(', ');
+
+// Active traps, bottom first; only the topmost one handles focus
+const traps: Trap[] = [];
+
+const isTopmost = (trap: Trap) => traps[traps.length - 1] === trap;
+
+/** The elements Tab moves through inside `container`, in tab order */
+function getTabbable(container: HTMLElement): HTMLElement[] {
+  const elements = Array.from(container.querySelectorAll<HTMLElement>(TABBABLE)).filter(
+    element =>
+      element.tabIndex >= 0 &&
+      !(element as HTMLElement & { disabled?: boolean }).disabled &&
+      !element.closest('[hidden], [inert]')
+  );
+  // Positive tabindex comes first, in ascending order; the rest keep document order
+  const positive = elements.filter(element => element.tabIndex > 0).sort((a, b) => a.tabIndex - b.tabIndex);
+  return [...positive, ...elements.filter(element => element.tabIndex === 0)];
+}
+
+// Focuses the first tabbable element, or the container itself (give it tabIndex={-1}) if there is none
+function focusFirst(container: HTMLElement) {
+  (getTabbable(container)[0] ?? container).focus();
+}
+
+/**
+ * useFocusTrap
+ *
+ * Keeps keyboard focus inside an element while it's active, e.g. a modal dialog. Focus moves
+ * into the element on activation (to `initialFocus`, or to its first tabbable element), Tab and
+ * Shift+Tab cycle through its tabbable descendants, and focus that escapes it, such as from a
+ * click outside, is pulled back in. On deactivation, focus returns to the element that had it
+ * before.
+ *
+ * Traps stack: a trap activated inside another one takes over, and hands focus back when it
+ * deactivates.
+ *
+ * @param ref - Ref object pointing to the element to keep focus in
+ * @param options - Whether the trap is active (default: true), or configuration options
+ */
+function useFocusTrap<T extends HTMLElement>(
+  ref: RefObject<T | null>,
+  options: boolean | FocusTrapOptions = true
+): void {
+  const { enabled = true } = typeof options === 'boolean' ? { enabled: options } : options;
+  const order = useLayerOrder(enabled);
+  const [trap] = useState<Trap>(() => ({ order, container: ref, returnFocus: null }));
+
+  // Kept in a ref so inline options don't re-activate the trap
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const { initialFocus, restoreFocus = true } =
+      typeof optionsRef.current === 'boolean' ? {} : optionsRef.current;
+
+    trap.container = ref;
+    trap.returnFocus = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    traps.push(trap);
+    traps.sort((a, b) => compareLayerOrder(a.order, b.order));
+
+    const above = traps[traps.indexOf(trap) + 1];
+    if (above) {
+      // A nested trap activated first, in the same render: what had focus before either of them
+      // belongs to this trap, and focus stays in the nested one
+      trap.returnFocus = above.returnFocus;
+      above.returnFocus = null;
+    } else if (ref.current && !ref.current.contains(document.activeElement)) {
+      if (initialFocus?.current) {
+        initialFocus.current.focus();
+      } else {
+        focusFirst(ref.current);
+      }
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const container = ref.current;
+      if (event.key !== 'Tab' || !container || !isTopmost(trap)) return;
+
+      const tabbable = getTabbable(container);
+      if (tabbable.length === 0) {
+        event.preventDefault();
+        container.focus();
+        return;
+      }
+
+      const first = tabbable[0];
+      const last = tabbable[tabbable.length - 1];
+      const active = document.activeElement;
+      const inside = container.contains(active);
+
+      // Wrap around at either end; let the browser move focus in between
+      if (event.shiftKey && (!inside || active === first || active === container)) {
+        event.preventDefault();
+        last.focus();
+      } else if (!event.shiftKey && (!inside || active === last)) {
+        event.preventDefault();
+        first.focus();
+      }
+    };
+
+    const handleFocusIn = (event: FocusEvent) => {
+      const container = ref.current;
+      if (!container || !isTopmost(trap) || container.contains(event.target as Node)) return;
+      focusFirst(container);
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    document.addEventListener('focusin', handleFocusIn);
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('focusin', handleFocusIn);
+
+      const index = traps.indexOf(trap);
+      if (index !== -1) traps.splice(index, 1);
+
+      const { returnFocus } = trap;
+      trap.returnFocus = null;
+      if (restoreFocus && returnFocus?.isConnected) {
+        returnFocus.focus();
+        return;
+      }
+
+      // Nothing to return to: keep focus in the trap that is now on top
+      const below = traps[traps.length - 1];
+      const belowContainer = below?.container.current;
+      if (belowContainer && !belowContainer.contains(document.activeElement)) focusFirst(belowContainer);
+    };
+  }, [enabled, trap, ref]);
+}
+
+export default useFocusTrap;
@@ -0,0 +1,254 @@
+import { useCallback, useEffect, useRef, useState, RefCallback } from 'react';
+import useAsync, { AsyncContext, AsyncStatus, withSignal } from './useAsync';
+import useVisibilityObserver, { UseVisibilityObserverOptions } from './useVisibilityObserver';
+import { RetryDelayOption, RetryOption } from '../utils/retry';
+
+/** Loaded pages, in display order, with the page param each one was fetched with */
+export interface InfiniteData<TPage, TParam> {
+  pages: TPage[];
+  pageParams: TParam[];
+}
+
+export interface InfiniteAsyncOptions<TPage, TParam, E = Error> {
+  /** Page param for the first page */
+  initialPageParam: TParam;
+  /** Returns the param of the page after the last one, or `null`/`undefined` when there is none */
+  getNextPageParam: (lastPage: TPage, pages: TPage[], lastPageParam: TParam) => TParam | null | undefined;
+  /** Returns the param of the page before the first one, or `null`/`undefined` when there is none */
+  getPreviousPageParam?: (
+    firstPage: TPage,
+    pages: TPage[],
+    firstPageParam: TParam
+  ) => TParam | null | undefined;
+  /** Load the first page on mount (default: false) */
+  immediate?: boolean;
+  onSuccess?: (data: InfiniteData<TPage, TParam>) => void;
+  onError?: (error: E) => void;
+  /** Retries per page request; see `useAsync` */
+  retry?: RetryOption;
+  /** Retry delay per page request; see `useAsync` */
+  retryDelay?: RetryDelayOption;
+}
+
+export interface InfiniteAsyncResult<TPage, TParam, E = Error> {
+  pages: TPage[];
+  pageParams: TParam[];
+  loading: boolean;
+  error: E | null;
+  status: AsyncStatus;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  isFetchingNextPage: boolean;
+  isFetchingPreviousPage: boolean;
+  /** Loads the next page, or the first page when nothing is loaded yet */
+  fetchNextPage: () => Promise<void>;
+  /** Loads the page before the first one */
+  fetchPreviousPage: () => Promise<void>;
+  /** Refetches every loaded page in order, recomputing page params from the fresh pages */
+  refetch: () => Promise<void>;
+  /** Drops all pages and returns to the initial state */
+  reset: () => void;
+  cancel: () => void;
+}
+
+type Direction = 'next' | 'previous' | 'refetch';
+
+const noop = () => {};
+
+/**
+ * useInfiniteAsync
+ *
+ * Loads a list one page at a time, for offset- or cursor-based pagination. Each page is
+ * fetched with a page param; `getNextPageParam` and `getPreviousPageParam` derive the
+ * params of neighbouring pages from the pages already loaded.
+ *
+ * Built on `useAsync`: page requests get an `AsyncContext` with an abort signal and support
+ * `retry`. Only one load runs at a time: fetching a page while one is loading returns the
+ * pending load, while `refetch` aborts it and starts over.
+ *
+ * @param fetchPage - Fetches the page for a page param
+ * @param options - Page param functions and configuration options
+ * @returns Loaded pages, paging flags and the functions to load more
+ */
+function useInfiniteAsync<TPage, TParam, E = Error>(
+  fetchPage: (pageParam: TParam, context: AsyncContext) => Promise<TPage>,
+  options: InfiniteAsyncOptions<TPage, TParam, E>
+): InfiniteAsyncResult<TPage, TParam, E> {
+  const { getNextPageParam, getPreviousPageParam } = options;
+  const [direction, setDirection] = useState<Direction | null>(null);
+
+  // Latest loaded pages, read by the loader when it runs
+  const dataRef = useRef<InfiniteData<TPage, TParam> | null>(null);
+
+  // Latest functions and callbacks, so inline ones don't recreate `execute` on every render
+  const fetchPageRef = useRef(fetchPage);
+  fetchPageRef.current = fetchPage;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const load = useCallback(
+    withSignal(context => async (dir: Direction): Promise<InfiniteData<TPage, TParam>> => {
+      const fetchPage = fetchPageRef.current;
+      const { initialPageParam, getNextPageParam, getPreviousPageParam } = optionsRef.current;
+      const current = dataRef.current;
+
+      if (!current || current.pages.length === 0) {
+        const page = await fetchPage(initialPageParam, context);
+        return { pages: [page], pageParams: [initialPageParam] };
+      }
+
+      const { pages, pageParams } = current;
+
+      if (dir === 'next') {
+        const param = getNextPageParam(pages[pages.length - 1], pages, pageParams[pageParams.length - 1]);
+        if (param == null) return current;
+        const page = await fetchPage(param, context);
+        return { pages: [...pages, page], pageParams: [...pageParams, param] };
+      }
+
+      if (dir === 'previous') {
+        const param = getPreviousPageParam?.(pages[0], pages, pageParams[0]);
+        if (param == null) return current;
+        const page = await fetchPage(param, context);
+        return { pages: [page, ...pages], pageParams: [param, ...pageParams] };
+      }
+
+      // Refetch from the first param; later params may change with the fresh pages
+      const next: InfiniteData<TPage, TParam> = { pages: [], pageParams: [] };
+      let param: TParam | null | undefined = pageParams[0];
+      while (param != null && next.pages.length < pages.length) {
+        const page = await fetchPage(param, context);
+        next.pages.push(page);
+        next.pageParams.push(param);
+        param = getNextPageParam(page, next.pages, param);
+      }
+      return next;
+    }),
+    []
+  );
+
+  const handleSuccess = useCallback((data: InfiniteData<TPage, TParam>) => {
+    dataRef.current = data;
+    optionsRef.current.onSuccess?.(data);
+  }, []);
+  const handleError = useCallback((error: E) => optionsRef.current.onError?.(error), []);
+
+  const [execute, state] = useAsync<typeof load, E>(load, {
+    retry: options.retry,
+    retryDelay: options.retryDelay,
+    onSuccess: handleSuccess,
+    onError: handleError,
+  });
+
+  // useAsync clears `data` on error; loaded pages stay visible
+  const data = state.data ?? dataRef.current;
+  const pages = data ? data.pages : [];
+  const pageParams = data ? data.pageParams : [];
+
+  const hasNextPage =
+    pages.length === 0 ||
+    getNextPageParam(pages[pages.length - 1], pages, pageParams[pageParams.length - 1]) != null;
+  const hasPreviousPage =
+    pages.length > 0 &&
+    getPreviousPageParam !== undefined &&
+    getPreviousPageParam(pages[0], pages, pageParams[0]) != null;
+
+  // The call in flight; other page loads join it, while a refetch supersedes it
+  const activeRef = useRef<Promise<void> | null>(null);
+
+  const run = useCallback(
+    (dir: Direction): Promise<void> => {
+      if (activeRef.current && dir !== 'refetch') {
+        return activeRef.current;
+      }
+
+      setDirection(dir);
+      const call = execute(dir).then(noop);
+      const clear = () => {
+        if (activeRef.current === call) activeRef.current = null;
+      };
+      activeRef.current = call;
+      call.then(clear, clear);
+      return call;
+    },
+    [execute]
+  );
+
+  const fetchNextPage = useCallback(() => run('next'), [run]);
+  const fetchPreviousPage = useCallback(() => run('previous'), [run]);
+  const refetch = useCallback(() => run('refetch'), [run]);
+
+  const { cancel: cancelState, reset: resetState } = state;
+  const cancel = useCallback(() => {
+    activeRef.current = null;
+    cancelState();
+  }, [cancelState]);
+
+  const reset = useCallback(() => {
+    cancel();
+    dataRef.current = null;
+    setDirection(null);
+    resetState();
+  }, [cancel, resetState]);
+
+  // Load the first page on mount if requested
+  useEffect(() => {
+    if (options.immediate) {
+      fetchNextPage().catch(noop);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return {
+    pages,
+    pageParams,
+    loading: state.loading,
+    error: state.error,
+    status: state.status,
+    hasNextPage,
+    hasPreviousPage,
+    isFetchingNextPage: state.loading && direction === 'next',
+    isFetchingPreviousPage: state.loading && direction === 'previous',
+    fetchNextPage,
+    fetchPreviousPage,
+    refetch,
+    reset,
+    cancel,
+  };
+}
+
+export interface InfiniteSentinelOptions extends UseVisibilityObserverOptions {
+  /** Stop auto-loading while false (default: true) */
+  enabled?: boolean;
+}
+
+/**
+ * useInfiniteSentinel
+ *
+ * Loads the next page of a `useInfiniteAsync` list whenever the element given the returned
+ * ref becomes visible. Place it after the last item. Loading pauses while a request is
+ * running and after an error, so a failing page is not requested in a loop.
+ *
+ * @param infinite - The result of `useInfiniteAsync`
+ * @param options - IntersectionObserver options and `enabled`
+ * @returns ref - Ref callback for the sentinel element
+ */
+export function useInfiniteSentinel<T extends Element = Element>(
+  infinite: Pick<InfiniteAsyncResult<unknown, unknown, unknown>, 'hasNextPage' | 'loading' | 'error' | 'fetchNextPage'>,
+  options: InfiniteSentinelOptions = {}
+): RefCallback<T> {
+  const { enabled = true, ...observerOptions } = options;
+  const [isVisible, ref] = useVisibilityObserver<T>(observerOptions);
+  const { hasNextPage, loading, error, fetchNextPage } = infinite;
+
+  // Re-runs after each page, so a sentinel still in view keeps loading until it is pushed out
+  useEffect(() => {
+    if (enabled && isVisible && hasNextPage && !loading && !error) {
+      fetchNextPage().catch(noop);
+    }
+  }, [enabled, isVisible, hasNextPage, loading, error, fetchNextPage]);
+
+  return ref;
+}
+
+export default useInfiniteAsync;
@@ -1,4 +1,7 @@
-import { useState, useEffect, useCallback } from 'react';
+import useStorageState, { StorageStateMeta, StorageStateOptions } from './useStorageState';
+import { localStorageAdapter } from '../utils/storageAdapters';
+
+export type LocalStorageOptions<T> = Omit<StorageStateOptions<T>, 'storage'>;
 
 /**
  * useLocalStorage
@@ -6,76 +9,32 @@ import { useState, useEffect, useCallback } from 'react';
  * A hook that persists state in localStorage with automatic serialization/deserialization.
  * Handles SSR safely and provides error handling for localStorage access.
  *
+ * Stored values are read with `deserialize` and checked with `validate`; a value that can't be
+ * parsed or fails validation is ignored in favour of `initialValue`. With `version`, values from
+ * older versions are upgraded by `migrate` and written back; values without a migration path
+ * (or from a newer version) are ignored.
+ *
+ * All instances using the same key share one value through `useSyncExternalStore`, so a
+ * `setValue` in one component updates the others in the same tab. Changes and removals made
+ * in other tabs are picked up through the `storage` event.
+ *
+ * Server rendering and hydration use `initialValue`, through `useSyncExternalStore`'s server
+ * snapshot, so the hydrated markup matches the server's. The stored value is rendered right
+ * after hydration; `isHydrated` tells the two renders apart.
+ *
+ * This is `useStorageState` with the localStorage adapter.
+ *
  * @param key - The localStorage key to use
  * @param initialValue - The initial value if no value exists in localStorage
- * @returns [value, setValue, removeValue] - Current value, setter function, and remove function
+ * @param options - Namespace, serialization, validation, migration, expiry and error options
+ * @returns [value, setValue, removeValue, { isHydrated }] - Current value, setter function, remove function, and whether the stored value has been read
  */
 function useLocalStorage<T>(
   key: string,
-  initialValue: T
-): [T, (value: T | ((prev: T) => T)) => void, () => void] {
-  // Get from localStorage then parse stored json or return initialValue
-  const [storedValue, setStoredValue] = useState<T>(() => {
-    if (typeof window === 'undefined') {
-      return initialValue;
-    }
-    
-    try {
-      const item = window.localStorage.getItem(key);
-      return item ? JSON.parse(item) : initialValue;
-    } catch (error) {
-      console.warn(`Error reading localStorage key "${key}":`, error);
-      return initialValue;
-    }
-  });
-
-  // Return a wrapped version of useState's setter function that persists the new value to localStorage
-  const setValue = useCallback((value: T | ((prev: T) => T)) => {
-    try {
-      // Allow value to be a function so we have the same API as useState
-      const valueToStore = value instanceof Function ? value(storedValue) : value;
-      setStoredValue(valueToStore);
-      
-      // Save to localStorage
-      if (typeof window !== 'undefined') {
-        window.localStorage.setItem(key, JSON.stringify(valueToStore));
-      }
-    } catch (error) {
-      console.warn(`Error setting localStorage key "${key}":`, error);
-    }
-  }, [key, storedValue]);
-
-  // Remove value from localStorage
-  const removeValue = useCallback(() => {
-    try {
-      setStoredValue(initialValue);
-      if (typeof window !== 'undefined') {
-        window.localStorage.removeItem(key);
-      }
-    } catch (error) {
-      console.warn(`Error removing localStorage key "${key}":`, error);
-    }
-  }, [key, initialValue]);
-
-  // Listen for changes to localStorage from other tabs/windows
-  useEffect(() => {
-    if (typeof window === 'undefined') return;
-
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === key && e.newValue !== null) {
-        try {
-          setStoredValue(JSON.parse(e.newValue));
-        } catch (error) {
-          console.warn(`Error parsing localStorage value for key "${key}":`, error);
-        }
-      }
-    };
-
-    window.addEventListener('storage', handleStorageChange);
-    return () => window.removeEventListener('storage', handleStorageChange);
-  }, [key]);
-
-  return [storedValue, setValue, removeValue];
+  initialValue: T,
+  options: LocalStorageOptions<T> = {}
+): [T, (value: T | ((prev: T) => T)) => void, () => void, StorageStateMeta] {
+  return useStorageState(key, initialValue, { ...options, storage: localStorageAdapter });
 }
 
-export default useLocalStorage; 
\ No newline at end of file
+export default useLocalStorage;
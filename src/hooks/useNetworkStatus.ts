@@ -1,4 +1,5 @@
 import { useEffect, useState } from 'react';
+import { isOnline, subscribeToNetworkStatus } from '../utils/networkStatus';
 
 interface NetworkStatus {
   online: boolean;
@@ -10,6 +11,7 @@ interface NetworkStatus {
 }
 
 function getConnectionInfo() {
+  if (typeof navigator === 'undefined') return {};
   const connection = (navigator as any).connection || (navigator as any).mozConnection || (navigator as any).webkitConnection;
   if (!connection) return {};
   return {
@@ -22,20 +24,15 @@ function getConnectionInfo() {
 
 export default function useNetworkStatus(): NetworkStatus {
   const [status, setStatus] = useState<NetworkStatus>(() => ({
-    online: typeof navigator !== 'undefined' ? navigator.onLine : true,
+    online: isOnline(),
     since: null,
     ...getConnectionInfo(),
   }));
 
   useEffect(() => {
-    const updateOnline = () => setStatus(s => ({
+    const updateOnline = (online: boolean) => setStatus(s => ({
       ...s,
-      online: true,
-      since: new Date(),
-    }));
-    const updateOffline = () => setStatus(s => ({
-      ...s,
-      online: false,
+      online,
       since: new Date(),
     }));
     const updateConnection = () => setStatus(s => ({
@@ -43,16 +40,14 @@ export default function useNetworkStatus(): NetworkStatus {
       ...getConnectionInfo(),
     }));
 
-    window.addEventListener('online', updateOnline);
-    window.addEventListener('offline', updateOffline);
+    const unsubscribe = subscribeToNetworkStatus(updateOnline);
     const connection = (navigator as any).connection || (navigator as any).mozConnection || (navigator as any).webkitConnection;
     if (connection && connection.addEventListener) {
       connection.addEventListener('change', updateConnection);
     }
 
     return () => {
-      window.removeEventListener('online', updateOnline);
-      window.removeEventListener('offline', updateOffline);
+      unsubscribe();
       if (connection && connection.removeEventListener) {
         connection.removeEventListener('change', updateConnection);
       }
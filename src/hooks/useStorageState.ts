@@ -0,0 +1,561 @@
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import { StorageAdapter, localStorageAdapter } from '../utils/storageAdapters';
+
+export {
+  localStorageAdapter,
+  sessionStorageAdapter,
+  createMemoryStorage,
+  createIndexedDBStorage,
+  createEncryptedStorage,
+} from '../utils/storageAdapters';
+export type {
+  StorageAdapter,
+  SyncStorageAdapter,
+  AsyncStorageAdapter,
+  StorageChangeListener,
+  IndexedDBStorageOptions,
+  EncryptedStorageOptions,
+} from '../utils/storageAdapters';
+
+/**
+ * What went wrong:
+ * - `'quota'`: the storage is full
+ * - `'parse'`: a stored value couldn't be deserialized, validated or migrated
+ * - `'serialize'`: a new value couldn't be serialized, so it wasn't set
+ * - `'security'`: the storage can't be accessed (blocked, disabled or unavailable)
+ */
+export type StorageErrorKind = 'quota' | 'parse' | 'serialize' | 'security';
+
+export interface StorageError {
+  kind: StorageErrorKind;
+  /** The stored key, including the namespace */
+  key: string;
+  /** The error thrown by the storage or the serialization pipeline */
+  cause: unknown;
+}
+
+export interface EvictionContext {
+  /** The key whose write exceeded the quota */
+  key: string;
+  /** The stored string that didn't fit */
+  value: string;
+  storage: StorageAdapter;
+}
+
+/**
+ * Frees space after a write exceeded the quota, e.g. by removing old keys.
+ * Return true to retry the write once.
+ */
+export type EvictionStrategy = (context: EvictionContext) => boolean | Promise<boolean>;
+
+export interface StorageStateOptions<T> {
+  /** Where values are stored (default: `localStorageAdapter`) */
+  storage?: StorageAdapter;
+  /**
+   * Prefix for the key, so apps sharing a storage don't collide: the value is stored under
+   * `namespace:key`. A namespace can be cleared with `clearNamespace`.
+   */
+  namespace?: string;
+  /** Converts the value to the stored string (default: `JSON.stringify`) */
+  serialize?: (value: T) => string;
+  /** Converts the stored string back to a value (default: `JSON.parse`) */
+  deserialize?: (raw: string) => unknown;
+  /**
+   * Checks a stored (or migrated) value before it is used; `initialValue` is used instead
+   * when it returns false. Type guards narrow the stored value to `T`.
+   */
+  validate?: (value: unknown) => value is T;
+  /**
+   * Version of the stored shape. Values are stored with their version, and values from an
+   * older version go through `migrate`. Values stored without a version count as version 0.
+   */
+  version?: number;
+  /** Upgrades a value stored by an older `version` to the current shape */
+  migrate?: (oldValue: unknown, oldVersion: number) => T;
+  /** How long (ms) a written value is kept; it is removed once it expires (default: forever) */
+  ttl?: number;
+  /** Called instead of logging a warning when reading or writing fails */
+  onError?: (error: StorageError) => void;
+  /** Frees space when a write exceeds the quota, before the write is retried */
+  evict?: EvictionStrategy;
+}
+
+export interface StorageStateMeta {
+  /**
+   * False until the stored value has been read: on the server, while hydrating server-rendered
+   * markup, and while an async storage is loading. Sync storages are read right away otherwise.
+   */
+  isHydrated: boolean;
+}
+
+// Stored form of a value with a `version` or `ttl`; `value` holds the serialized value
+interface StoredEnvelope {
+  __version?: number;
+  __expires?: number;
+  value: string;
+}
+
+function isEnvelope(parsed: unknown): parsed is StoredEnvelope {
+  if (typeof parsed !== 'object' || parsed === null) return false;
+  const { __version, __expires, value } = parsed as StoredEnvelope;
+  return typeof value === 'string' && (typeof __version === 'number' || typeof __expires === 'number');
+}
+
+// Splits a stored string into its version, expiry and serialized value
+function unwrapEnvelope(raw: string): { version: number; expiresAt: number | null; serialized: string } {
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (isEnvelope(parsed)) {
+      return {
+        version: parsed.__version ?? 0,
+        expiresAt: parsed.__expires ?? null,
+        serialized: parsed.value,
+      };
+    }
+  } catch {
+    // Not an envelope; a plain value, or one stored before versioning
+  }
+  return { version: 0, expiresAt: null, serialized: raw };
+}
+
+// setTimeout fires right away for delays that don't fit in 32 bits
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+function isQuotaError(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) return false;
+  const { name, code } = error as { name?: string; code?: number };
+  return (
+    name === 'QuotaExceededError' ||
+    name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    code === 22 ||
+    code === 1014
+  );
+}
+
+// Storage access fails either because it is full or because it is blocked
+const accessErrorKind = (error: unknown): StorageErrorKind => (isQuotaError(error) ? 'quota' : 'security');
+
+// Reports a failed storage access; `action` completes "Error <action> <storage> key"
+type AccessErrorHandler = (error: unknown, action: 'reading' | 'setting' | 'removing') => void;
+
+// Shared state of a key while hooks use it: the raw stored string, and who to notify on change
+interface KeyEntry {
+  raw: string | null;
+  /** False while an async storage is still reading the key */
+  hydrated: boolean;
+  listeners: Set<() => void>;
+}
+
+// A value read from the storage, its stored form if it had to be migrated, and why it couldn't be read
+interface ReadResult<T> {
+  value: T;
+  migrated: string | null;
+  error: { message: string; cause?: unknown } | null;
+}
+
+// Keys in use per storage, with the storage's subscription to outside changes
+interface StorageEntry {
+  keys: Map<string, KeyEntry>;
+  unsubscribe: () => void;
+}
+
+const storages = new Map<StorageAdapter, StorageEntry>();
+
+const storageName = (storage: StorageAdapter) => storage.name ?? 'storage';
+
+function readSync(storage: StorageAdapter, key: string, onAccessError: AccessErrorHandler): string | null {
+  if (storage.async) return null;
+  try {
+    return storage.getItem(key);
+  } catch (error) {
+    onAccessError(error, 'reading');
+    return null;
+  }
+}
+
+function notify(entry: KeyEntry) {
+  entry.listeners.forEach(listener => listener());
+}
+
+// The raw value hooks render; it stays in memory when writing it to the storage fails
+function getRawValue(storage: StorageAdapter, key: string, onAccessError: AccessErrorHandler): string | null {
+  if (typeof window === 'undefined') return null;
+  const entry = storages.get(storage)?.keys.get(key);
+  return entry ? entry.raw : readSync(storage, key, onAccessError);
+}
+
+function getHydrated(storage: StorageAdapter, key: string): boolean {
+  const entry = storages.get(storage)?.keys.get(key);
+  return entry ? entry.hydrated : !storage.async;
+}
+
+// A write wins over a pending async read of the key
+function setRawValue(storage: StorageAdapter, key: string, raw: string | null) {
+  const entry = storages.get(storage)?.keys.get(key);
+  if (!entry) return;
+  entry.raw = raw;
+  entry.hydrated = true;
+  notify(entry);
+}
+
+// Another tab changed a key; `key` is null when it cleared the storage
+function handleOutsideChange(storage: StorageAdapter, key: string | null, newValue: string | null) {
+  const keys = storages.get(storage)?.keys;
+  if (!keys) return;
+
+  if (key === null) {
+    keys.forEach((_, cleared) => setRawValue(storage, cleared, null));
+  } else {
+    setRawValue(storage, key, newValue);
+  }
+}
+
+function subscribeToKey(
+  storage: StorageAdapter,
+  key: string,
+  listener: () => void,
+  onAccessError: AccessErrorHandler
+): () => void {
+  let storageEntry = storages.get(storage);
+  if (!storageEntry) {
+    const subscription = storage.subscribe?.((changedKey, newValue) =>
+      handleOutsideChange(storage, changedKey, newValue)
+    );
+    storageEntry = { keys: new Map(), unsubscribe: subscription ?? (() => {}) };
+    storages.set(storage, storageEntry);
+  }
+
+  let entry = storageEntry.keys.get(key);
+  if (!entry) {
+    const created: KeyEntry = {
+      raw: readSync(storage, key, onAccessError),
+      hydrated: !storage.async,
+      listeners: new Set(),
+    };
+    entry = created;
+    storageEntry.keys.set(key, created);
+
+    if (storage.async) {
+      storage.getItem(key).then(
+        raw => {
+          if (created.hydrated) return;
+          created.raw = raw;
+          created.hydrated = true;
+          notify(created);
+        },
+        error => {
+          onAccessError(error, 'reading');
+          if (created.hydrated) return;
+          created.hydrated = true;
+          notify(created);
+        }
+      );
+    }
+  }
+  entry.listeners.add(listener);
+
+  const keyEntry = entry;
+  const owner = storageEntry;
+  return () => {
+    keyEntry.listeners.delete(listener);
+    if (keyEntry.listeners.size > 0 || owner.keys.get(key) !== keyEntry) return;
+
+    owner.keys.delete(key);
+    if (owner.keys.size === 0 && storages.get(storage) === owner) {
+      storages.delete(storage);
+      owner.unsubscribe();
+    }
+  };
+}
+
+// Runs a sync or async storage call, passing failures of either kind to `onFailure`
+function attempt(call: () => void | Promise<void>, onFailure: (error: unknown) => void) {
+  try {
+    const result = call();
+    if (result instanceof Promise) {
+      result.catch(onFailure);
+    }
+  } catch (error) {
+    onFailure(error);
+  }
+}
+
+// Writes (or removes, for null) a key; when the quota is exceeded, `evict` may free space for a retry
+function writeToStorage(
+  storage: StorageAdapter,
+  key: string,
+  raw: string | null,
+  onAccessError: AccessErrorHandler,
+  evict?: EvictionStrategy
+) {
+  const action = raw === null ? 'removing' : 'setting';
+  const fail = (error: unknown) => onAccessError(error, action);
+  const write = () => (raw === null ? storage.removeItem(key) : storage.setItem(key, raw));
+
+  attempt(write, error => {
+    if (raw === null || !evict || !isQuotaError(error)) {
+      fail(error);
+      return;
+    }
+    Promise.resolve()
+      .then(() => evict({ key, value: raw, storage }))
+      .then(
+        retry => (retry ? attempt(write, fail) : fail(error)),
+        () => fail(error)
+      );
+  });
+}
+
+const namespacedKey = (key: string, namespace?: string) => (namespace ? `${namespace}:${key}` : key);
+
+/**
+ * Removes every key stored under `namespace` (see the `namespace` option) and resets the hooks
+ * using them to their initial value. Needs a storage that can list its keys. Rejects an empty
+ * namespace, which would match keys stored without one.
+ *
+ * @param namespace - The namespace to clear
+ * @param storage - The storage to clear it in (default: `localStorageAdapter`)
+ * @returns A promise that resolves once the keys have been removed
+ */
+export async function clearNamespace(namespace: string, storage: StorageAdapter = localStorageAdapter) {
+  // An empty namespace would match every key, including keys stored without one
+  if (!namespace) {
+    throw new Error('Cannot clear namespace "": the namespace must not be empty');
+  }
+  if (!storage.keys) {
+    throw new Error(`Cannot clear namespace "${namespace}": ${storageName(storage)} can't list its keys`);
+  }
+
+  const prefix = `${namespace}:`;
+  storages.get(storage)?.keys.forEach((_, key) => {
+    if (key.startsWith(prefix)) setRawValue(storage, key, null);
+  });
+
+  const keys = await storage.keys();
+  await Promise.all(keys.filter(key => key.startsWith(prefix)).map(key => storage.removeItem(key)));
+}
+
+const noop = () => {};
+const getServerRaw = () => null;
+const getServerHydrated = () => false;
+
+/**
+ * useStorageState
+ *
+ * State persisted through a storage adapter: localStorage, sessionStorage, memory, IndexedDB
+ * or a custom backend. Values go through the same serialization, validation and migration
+ * pipeline as `useLocalStorage`, which is built on this hook.
+ *
+ * All instances using the same storage and key share one value, and changes made outside the
+ * page (e.g. in other tabs) are picked up when the adapter reports them. With an async adapter,
+ * the hook renders `initialValue` with `isHydrated: false` until the stored value has been read.
+ * A value set before that wins over the stored one.
+ *
+ * On the server and while hydrating, `getServerSnapshot` renders `initialValue` so the markup
+ * matches; the stored value is rendered right after hydration.
+ *
+ * With `ttl`, each write stores an expiry time; expired values read as `initialValue` and are
+ * removed. Failures are passed to `onError` with their kind, or logged as warnings. When a
+ * write exceeds the quota, `evict` can free space before the write is retried.
+ *
+ * With `namespace`, the value is stored under `namespace:key`, and `clearNamespace` removes
+ * every key of the namespace at once.
+ *
+ * @param key - The key to store the value under
+ * @param initialValue - The value used when nothing (valid) is stored
+ * @param options - Storage adapter, namespace, serialization, validation, migration, expiry and error options
+ * @returns [value, setValue, removeValue, { isHydrated }] - Current value, setter, remove function and load state
+ */
+function useStorageState<T>(
+  key: string,
+  initialValue: T,
+  options: StorageStateOptions<T> = {}
+): [T, (value: T | ((prev: T) => T)) => void, () => void, StorageStateMeta] {
+  const { storage = localStorageAdapter, namespace } = options;
+  const storageKey = namespacedKey(key, namespace);
+  const name = storageName(storage);
+
+  // Kept in refs so inline options don't recreate the setters on every render
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const initialValueRef = useRef(initialValue);
+  initialValueRef.current = initialValue;
+
+  // Passes a failure to `onError`, or logs it
+  const report = useCallback(
+    (kind: StorageErrorKind, message: string, cause?: unknown) => {
+      const { onError } = optionsRef.current;
+      if (onError) {
+        onError({ kind, key: storageKey, cause: cause === undefined ? new Error(message) : cause });
+      } else if (cause === undefined) {
+        console.warn(message);
+      } else {
+        console.warn(message, cause);
+      }
+    },
+    [storageKey]
+  );
+
+  const handleAccessError = useCallback<AccessErrorHandler>(
+    (error, action) => report(accessErrorKind(error), `Error ${action} ${name} key "${storageKey}":`, error),
+    [report, name, storageKey]
+  );
+
+  // Converts a value to its stored form, wrapping it with its version and expiry if set
+  const serializeValue = useCallback((value: T, expiresAt?: number | null): string => {
+    const { serialize = JSON.stringify, version, ttl } = optionsRef.current;
+    const serialized = serialize(value);
+    if (version === undefined && ttl === undefined) {
+      return serialized;
+    }
+
+    const envelope: StoredEnvelope = {
+      __version: version,
+      __expires: ttl === undefined ? undefined : expiresAt ?? Date.now() + ttl,
+      value: serialized,
+    };
+    // Unset fields are left out by JSON.stringify
+    return JSON.stringify(envelope);
+  }, []);
+
+  // Turns a stored string into a value, running migrations and validation
+  const parseStoredValue = useCallback(
+    (raw: string): ReadResult<T> => {
+      const { deserialize = JSON.parse, validate, version, migrate, ttl } = optionsRef.current;
+      const fallback = (message: string | null): ReadResult<T> => ({
+        value: initialValueRef.current,
+        migrated: null,
+        error: message === null ? null : { message },
+      });
+      const invalid = `Invalid ${name} value for key "${storageKey}", using initial value`;
+
+      if (version === undefined && ttl === undefined) {
+        const value = deserialize(raw);
+        if (validate && !validate(value)) {
+          return fallback(invalid);
+        }
+        return { value: value as T, migrated: null, error: null };
+      }
+
+      const stored = unwrapEnvelope(raw);
+      if (stored.expiresAt !== null && stored.expiresAt <= Date.now()) {
+        return fallback(null);
+      }
+
+      let value = deserialize(stored.serialized);
+      const needsMigration = version !== undefined && stored.version !== version;
+
+      if (needsMigration) {
+        if (stored.version > version || !migrate) {
+          return fallback(
+            `Cannot migrate ${name} key "${storageKey}" from version ${stored.version} to ${version}, using initial value`
+          );
+        }
+        value = migrate(value, stored.version);
+      }
+
+      if (validate && !validate(value)) {
+        return fallback(invalid);
+      }
+
+      return {
+        value: value as T,
+        migrated: needsMigration ? serializeValue(value as T, stored.expiresAt) : null,
+        error: null,
+      };
+    },
+    [name, storageKey, serializeValue]
+  );
+
+  // Parses a raw stored value, falling back to the initial value. Runs during render, so
+  // failures are returned to be reported later rather than reported here
+  const readValue = useCallback(
+    (raw: string | null): ReadResult<T> => {
+      if (raw === null) {
+        return { value: initialValueRef.current, migrated: null, error: null };
+      }
+      try {
+        return parseStoredValue(raw);
+      } catch (error) {
+        return {
+          value: initialValueRef.current,
+          migrated: null,
+          error: { message: `Error reading ${name} key "${storageKey}":`, cause: error },
+        };
+      }
+    },
+    [name, storageKey, parseStoredValue]
+  );
+
+  const subscribe = useCallback(
+    (listener: () => void) => subscribeToKey(storage, storageKey, listener, handleAccessError),
+    [storage, storageKey, handleAccessError]
+  );
+  // Access errors of this read are reported when subscribing, which reads the key again
+  const raw = useSyncExternalStore(subscribe, () => getRawValue(storage, storageKey, noop), getServerRaw);
+  const isHydrated = useSyncExternalStore(subscribe, () => getHydrated(storage, storageKey), getServerHydrated);
+  const { value, migrated, error: readError } = useMemo(() => readValue(raw), [raw, readValue]);
+
+  // Report a value that can't be read after rendering, so `onError` can update state. The ref
+  // keeps StrictMode's second effect run from reporting it again
+  const reportedRef = useRef<ReadResult<T>['error']>(null);
+  useEffect(() => {
+    if (readError === null || reportedRef.current === readError) return;
+    reportedRef.current = readError;
+    report('parse', readError.message, readError.cause);
+  }, [readError, report]);
+
+  // Persist a migrated value, so the migration runs once rather than in every instance and read
+  useEffect(() => {
+    // Skip if the key has changed since, or another instance has already stored the migration
+    if (migrated === null || getRawValue(storage, storageKey, handleAccessError) !== raw) return;
+    setRawValue(storage, storageKey, migrated);
+    writeToStorage(storage, storageKey, migrated, handleAccessError);
+  }, [storage, storageKey, raw, migrated, handleAccessError]);
+
+  // Persists the new value and updates every instance using the key
+  const setValue = useCallback(
+    (next: T | ((prev: T) => T)) => {
+      if (typeof window === 'undefined') return;
+
+      try {
+        // Allow value to be a function so we have the same API as useState
+        const current = readValue(getRawValue(storage, storageKey, handleAccessError)).value;
+        const valueToStore = next instanceof Function ? next(current) : next;
+        const serialized = serializeValue(valueToStore);
+
+        // Instances update even if saving fails, so the value isn't lost for this session
+        setRawValue(storage, storageKey, serialized);
+        writeToStorage(storage, storageKey, serialized, handleAccessError, optionsRef.current.evict);
+      } catch (error) {
+        report('serialize', `Error setting ${name} key "${storageKey}":`, error);
+      }
+    },
+    [storage, name, storageKey, report, readValue, serializeValue, handleAccessError]
+  );
+
+  // Remove the value from the storage
+  const removeValue = useCallback(() => {
+    if (typeof window === 'undefined') return;
+
+    setRawValue(storage, storageKey, null);
+    writeToStorage(storage, storageKey, null, handleAccessError);
+  }, [storage, storageKey, handleAccessError]);
+
+  // Remove the value once it expires
+  const expiresAt = useMemo(() => (raw === null ? null : unwrapEnvelope(raw).expiresAt), [raw]);
+  useEffect(() => {
+    if (expiresAt === null) return;
+
+    const delay = Math.max(0, expiresAt - Date.now());
+    // Longer delays are checked again on the next read instead
+    if (delay > MAX_TIMEOUT) return;
+
+    const timer = setTimeout(removeValue, delay);
+    return () => clearTimeout(timer);
+  }, [expiresAt, removeValue]);
+
+  return [value, setValue, removeValue, { isHydrated }];
+}
+
+export default useStorageState;
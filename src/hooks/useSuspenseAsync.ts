@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useReducer, useRef } from 'react';
+import { AsyncArgs, AsyncResult } from './useAsync';
+import {
+  DEFAULT_CACHE_TIME,
+  getCacheKey,
+  invalidate,
+  preload,
+  readCache,
+  readResource,
+  subscribe,
+} from '../utils/asyncCache';
+import { callWithContext } from '../utils/asyncContext';
+
+type AsyncFunction = (...args: any[]) => Promise<any>;
+
+// Data loaded while suspended must not count as stale by the time the component mounts
+const MIN_STALE_TIME = 1000;
+
+export interface SuspenseAsyncOptions<Args extends any[]> {
+  /** Cache key shared with `useAsync`; a string is combined with the serialized arguments */
+  key: string | ((...args: Args) => string);
+  /** How long (ms) cached data is shown before it is refetched in the background (default and minimum: 1000) */
+  staleTime?: number;
+  /** How long (ms) unused cache entries are kept (default: 5 minutes) */
+  cacheTime?: number;
+}
+
+/**
+ * useSuspenseAsync
+ *
+ * A Suspense counterpart to `useAsync`. Until the first result for the key is cached, it throws
+ * the in-flight request's promise to the nearest `<Suspense>`; if that request fails, it rethrows
+ * the error to the nearest error boundary. The promise comes from the shared cache, so it is the
+ * same object across re-renders and is shared with `useAsync` instances using the same key.
+ *
+ * Once data is shown, refetches (stale data, `invalidate`, `refetch`) happen in the background.
+ * To retry after an error, call `invalidate(key)` before resetting the error boundary.
+ *
+ * @param asyncFunction - The async function to execute
+ * @param args - Arguments passed to the async function
+ * @param options - Configuration options; `key` is required
+ * @returns [data, { refetch }] - Resolved data and a function to refetch it in the background
+ */
+function useSuspenseAsync<F extends AsyncFunction>(
+  asyncFunction: F,
+  args: AsyncArgs<F>,
+  options: SuspenseAsyncOptions<AsyncArgs<F>>
+): [AsyncResult<F>, { refetch: () => void }] {
+  type T = AsyncResult<F>;
+
+  const { key, cacheTime = DEFAULT_CACHE_TIME } = options;
+  const staleTime = Math.max(options.staleTime ?? 0, MIN_STALE_TIME);
+  const cacheKey = getCacheKey(key, args);
+  const [, forceUpdate] = useReducer((count: number) => count + 1, 0);
+
+  // Latest function and arguments, so subscriptions don't re-run on every render
+  const loadRef = useRef<() => Promise<T>>(null!);
+  loadRef.current = () =>
+    preload<T>(cacheKey, signal => callWithContext(asyncFunction, args, { signal }), cacheTime);
+
+  // Re-render on new data; refetch in the background when the key is invalidated
+  useEffect(() => {
+    return subscribe<T>(
+      cacheKey,
+      event => {
+        if (event.type === 'invalidate') {
+          loadRef.current().catch(() => {});
+        }
+        forceUpdate();
+      },
+      cacheTime
+    );
+  }, [cacheKey, cacheTime]);
+
+  const cached = readCache<T>(cacheKey, staleTime);
+  const isStale = cached !== undefined && cached.stale;
+
+  // Revalidate stale data without suspending
+  useEffect(() => {
+    if (isStale) {
+      loadRef.current().catch(() => {});
+    }
+  }, [cacheKey, isStale]);
+
+  const refetch = useCallback(() => invalidate(cacheKey), [cacheKey]);
+
+  if (cached) {
+    return [cached.data, { refetch }];
+  }
+
+  const resource = readResource<T>(cacheKey);
+  if (resource.hasError) {
+    throw resource.error;
+  }
+  throw resource.promise ?? loadRef.current();
+}
+
+export default useSuspenseAsync;
@@ -0,0 +1,55 @@
+import { useRef, useEffect, useMemo } from 'react';
+import { createThrottled, DebouncedFunction, ThrottleOptions, ThrottleWait } from '../utils/timing';
+
+export type { ThrottleOptions, ThrottleWait } from '../utils/timing';
+
+/**
+ * useThrottleCallback
+ *
+ * Returns a throttled version of the provided callback function. While calls keep coming,
+ * the throttled function invokes the callback at most once every `wait` milliseconds, or
+ * once per animation frame with `wait` set to `'frame'`.
+ *
+ * By default the callback runs on the first call, then at the end of each wait with the
+ * latest arguments; `leading: false` and `trailing: false` skip either. As with
+ * `useDebounceCallback`, the throttled function returns the result of the last invocation,
+ * and has `cancel()`, `flush()` and `isPending()`.
+ *
+ * @param callback - The function to throttle.
+ * @param wait - Minimum time between invocations in milliseconds, or `'frame'`.
+ * @param options - Leading and trailing invocation.
+ * @returns A throttled callback function with `cancel`, `flush` and `isPending`.
+ */
+function useThrottleCallback<T extends (...args: any[]) => any>(
+  callback: T,
+  wait: ThrottleWait,
+  options: ThrottleOptions = {}
+): DebouncedFunction<T> {
+  const { leading, trailing } = options;
+  const callbackRef = useRef(callback);
+
+  // Update ref if callback changes
+  useEffect(() => {
+    callbackRef.current = callback;
+  }, [callback]);
+
+  const throttledFn = useMemo(
+    () =>
+      createThrottled(((...args: Parameters<T>) => callbackRef.current(...args)) as T, wait, {
+        leading,
+        trailing,
+      }),
+    [wait, leading, trailing]
+  );
+
+  // Cleanup on unmount, and when a new wait or options replace the function
+  useEffect(() => {
+    return () => {
+      throttledFn.cancel();
+    };
+  }, [throttledFn]);
+
+  return throttledFn;
+}
+
+export default useThrottleCallback;
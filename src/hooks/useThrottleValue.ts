@@ -0,0 +1,65 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import useThrottleCallback from "./useThrottleCallback";
+import { ThrottleOptions, ThrottleWait } from "../utils/timing";
+
+export interface ThrottleValueControls {
+  /** Whether a newer value is waiting to be applied */
+  isPending: boolean;
+  /** Applies the waiting value now */
+  flush: () => void;
+  /** Drops the waiting value, keeping the current throttled value */
+  cancel: () => void;
+}
+
+/**
+ * useThrottleValue
+ *
+ * Returns a throttled version of the input value, which follows it at most once every `wait`
+ * milliseconds, or once per animation frame with `wait` set to `'frame'`. Unlike a debounced
+ * value, it keeps updating while the input keeps changing, e.g. a scroll position.
+ *
+ * @param value - The value to throttle.
+ * @param wait - Minimum time between updates in milliseconds, or `'frame'`.
+ * @param options - Leading and trailing updates, as in `useThrottleCallback`.
+ * @returns The throttled value, and controls for a waiting update.
+ */
+export function useThrottleValue<T>(
+  value: T,
+  wait: ThrottleWait,
+  options: ThrottleOptions = {}
+): [T, ThrottleValueControls] {
+  const [throttled, setThrottled] = useState(value);
+  const [isPending, setIsPending] = useState(false);
+
+  const update = useThrottleCallback((next: T) => {
+    // Wrapped, so function values are stored rather than called as updaters
+    setThrottled(() => next);
+    setIsPending(false);
+  }, wait, options);
+
+  // What the effect last passed on, so re-renders with the same value don't count as changes
+  const passedRef = useRef({ value, update });
+
+  useEffect(() => {
+    const passed = passedRef.current;
+    passedRef.current = { value, update };
+    // A new wait or options cancel the waiting update; pass the value on again
+    const replaced = passed.update !== update && isPending;
+    if (Object.is(passed.value, value) && !replaced) return;
+
+    update(value);
+    setIsPending(update.isPending());
+  }, [value, update, isPending]);
+
+  const flush = useCallback(() => {
+    update.flush();
+    setIsPending(false);
+  }, [update]);
+
+  const cancel = useCallback(() => {
+    update.cancel();
+    setIsPending(false);
+  }, [update]);
+
+  return [throttled, { isPending, flush, cancel }];
+}
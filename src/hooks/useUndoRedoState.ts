@@ -1,63 +1,510 @@
-import { useCallback, useRef, useState } from 'react';
+import { RefObject, useCallback, useEffect, useMemo, useReducer, useRef } from 'react';
+import useStorageState from './useStorageState';
+import { StorageAdapter, createMemoryStorage, localStorageAdapter } from '../utils/storageAdapters';
+import { Patch, applyPatches, diff } from '../utils/structuralPatch';
+import { createDebounced } from '../utils/timing';
 
-interface UndoRedoActions<T> {
-  set: (value: T | ((prev: T) => T)) => void;
+export type { Patch, PatchPath } from '../utils/structuralPatch';
+
+/**
+ * How undo steps are stored:
+ * - `'snapshot'`: the values before and after each step
+ * - `'patch'`: the patches that undo and redo each step, so memory grows with the size of the
+ *   changes rather than the size of the value
+ */
+export type UndoRedoHistoryMode = 'snapshot' | 'patch';
+
+export interface UndoRedoPersistOptions {
+  /** The key to store the history under */
+  key: string;
+  /** Where the history is stored (default: `localStorageAdapter`) */
+  storage?: StorageAdapter;
+  /** Prefix for the key, see `useStorageState` */
+  namespace?: string;
+  /** Maximum number of undo steps, and of redo steps, stored (default: 50) */
+  maxHistory?: number;
+  /** Time in ms to wait after a change before storing; changes within it are stored once (default: 250) */
+  delay?: number;
+}
+
+export interface UndoRedoShortcutOptions {
+  /** Element the shortcuts are scoped to; key presses in it or its descendants are handled */
+  target: RefObject<HTMLElement | null>;
+  /**
+   * Also handle shortcuts in text inputs, textareas and contenteditable elements. By default
+   * they are left to the element, which has its own undo (default: false)
+   */
+  overrideNativeUndo?: boolean;
+  /** Whether the shortcuts are active (default: true) */
+  enabled?: boolean;
+}
+
+export interface UndoRedoOptions {
+  /** How undo steps are stored (default: `'snapshot'`); read on mount */
+  mode?: UndoRedoHistoryMode;
+  /** Maximum number of undo steps kept; the oldest are dropped first (default: unlimited) */
+  maxHistory?: number;
+  /**
+   * Merges a `set` into the previous undo step when it comes within this many ms of the
+   * previous `set` (and has the same `coalesceKey`). Typing in bursts then undoes burst by burst.
+   */
+  coalesceWithin?: number;
+  /** Stores the history and future, so they survive a reload */
+  persist?: UndoRedoPersistOptions;
+  /** Binds Ctrl/Cmd+Z to undo, and Ctrl/Cmd+Shift+Z and Ctrl+Y to redo */
+  shortcuts?: UndoRedoShortcutOptions;
+}
+
+export interface UndoRedoSetOptions {
+  /**
+   * Consecutive sets with the same key are merged into one undo step, e.g. keystrokes in the
+   * same field. With `coalesceWithin`, they must also come within the time window.
+   */
+  coalesceKey?: string;
+}
+
+export interface UndoRedoActions<T> {
+  set: (value: T | ((prev: T) => T), options?: UndoRedoSetOptions) => void;
   undo: () => void;
   redo: () => void;
   reset: (newInitialValue?: T) => void;
+  /** Moves to a position in the timeline `[...history, state, ...future]` */
+  jump: (index: number) => void;
+  /** Ends the current coalescing group, so the next `set` starts a new undo step */
+  checkpoint: () => void;
+  /** Runs `fn` and records all sets made synchronously inside it as one undo step */
+  transaction: (fn: () => void) => void;
   canUndo: boolean;
   canRedo: boolean;
+  /** Past values, oldest first. In `'patch'` mode they are rebuilt from the patches when read */
   history: T[];
+  /** Undone values, next first. In `'patch'` mode they are rebuilt from the patches when read */
   future: T[];
+  /** Position of the current state in the timeline, i.e. `history.length` */
+  index: number;
+}
+
+// One undo step, which can be undone from the value after it and redone from the value before it
+type HistoryStep<T> =
+  | { type: 'snapshot'; before: T; after: T }
+  | { type: 'patch'; undo: Patch[]; redo: Patch[] };
+
+interface UndoRedoTimeline<T> {
+  past: HistoryStep<T>[];
+  present: T;
+  future: HistoryStep<T>[];
+}
+
+type UndoRedoAction<T> =
+  | {
+      type: 'set';
+      value: T | ((prev: T) => T);
+      /** Merge into the last step instead of adding one */
+      merge: boolean;
+      maxHistory: number;
+      mode: UndoRedoHistoryMode;
+    }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'jump'; index: number }
+  | { type: 'reset'; value: T }
+  | { type: 'restore'; timeline: UndoRedoTimeline<T> };
+
+type PatchStep = Extract<HistoryStep<unknown>, { type: 'patch' }>;
+
+// Stored form of the timeline. Snapshot steps are stored as the values between them, since
+// each value is both the `after` of one step and the `before` of the next; patch steps as they are
+type PersistedTimeline<T> =
+  | { history: T[]; present: T; future: T[] }
+  | { past: PatchStep[]; present: T; future: PatchStep[] };
+
+// The last set outside a transaction, which the next set may be merged into
+interface LastSet {
+  key: string | undefined;
+  time: number;
+}
+
+function recordStep<T>(before: T, after: T, mode: UndoRedoHistoryMode): HistoryStep<T> {
+  return mode === 'patch'
+    ? { type: 'patch', undo: diff(after, before), redo: diff(before, after) }
+    : { type: 'snapshot', before, after };
+}
+
+const undoStep = <T>(step: HistoryStep<T>, value: T): T =>
+  step.type === 'patch' ? applyPatches(value, step.undo) : step.before;
+
+const redoStep = <T>(step: HistoryStep<T>, value: T): T =>
+  step.type === 'patch' ? applyPatches(value, step.redo) : step.after;
+
+function limitHistory<T>(past: HistoryStep<T>[], maxHistory: number): HistoryStep<T>[] {
+  const limit = Math.max(0, maxHistory);
+  return past.length > limit ? past.slice(past.length - limit) : past;
+}
+
+function moveBack<T>({ past, present, future }: UndoRedoTimeline<T>): UndoRedoTimeline<T> {
+  const step = past[past.length - 1];
+  return { past: past.slice(0, -1), present: undoStep(step, present), future: [step, ...future] };
+}
+
+function moveForward<T>({ past, present, future }: UndoRedoTimeline<T>): UndoRedoTimeline<T> {
+  const step = future[0];
+  return { past: [...past, step], present: redoStep(step, present), future: future.slice(1) };
+}
+
+function undoRedoReducer<T>(timeline: UndoRedoTimeline<T>, action: UndoRedoAction<T>): UndoRedoTimeline<T> {
+  switch (action.type) {
+    case 'set': {
+      const { past, present } = timeline;
+      const { value, merge, maxHistory, mode } = action;
+      const newValue = typeof value === 'function' ? (value as (prev: T) => T)(present) : value;
+
+      if (merge && past.length > 0) {
+        // Record the last step and this one as one step from the value before both
+        const before = undoStep(past[past.length - 1], present);
+        return { past: [...past.slice(0, -1), recordStep(before, newValue, mode)], present: newValue, future: [] };
+      }
+      return {
+        past: limitHistory([...past, recordStep(present, newValue, mode)], maxHistory),
+        present: newValue,
+        future: [],
+      };
+    }
+    case 'undo':
+      return timeline.past.length > 0 ? moveBack(timeline) : timeline;
+    case 'redo':
+      return timeline.future.length > 0 ? moveForward(timeline) : timeline;
+    case 'jump': {
+      const steps = timeline.past.length + 1 + timeline.future.length;
+      const target = Math.min(Math.max(Math.trunc(action.index), 0), steps - 1);
+      let next = timeline;
+      while (next.past.length > target) next = moveBack(next);
+      while (next.past.length < target) next = moveForward(next);
+      return next;
+    }
+    case 'reset':
+      return { past: [], present: action.value, future: [] };
+    case 'restore':
+      return action.timeline;
+  }
+}
+
+// Rebuilds the values around the present by replaying the steps
+function timelineValues<T>({ past, present, future }: UndoRedoTimeline<T>): { history: T[]; future: T[] } {
+  const history: T[] = [];
+  let value = present;
+  for (let index = past.length - 1; index >= 0; index--) {
+    value = undoStep(past[index], value);
+    history.unshift(value);
+  }
+
+  const upcoming: T[] = [];
+  value = present;
+  for (const step of future) {
+    value = redoStep(step, value);
+    upcoming.push(value);
+  }
+  return { history, future: upcoming };
+}
+
+const isPatchStep = <T>(step: HistoryStep<T>): step is PatchStep => step.type === 'patch';
+
+function persistTimeline<T>({ past, present, future }: UndoRedoTimeline<T>, limit: number): PersistedTimeline<T> {
+  const timeline = { past: limitHistory(past, limit), present, future: future.slice(0, Math.max(0, limit)) };
+  const steps = [...timeline.past, ...timeline.future];
+  if (steps.length > 0 && steps.every(isPatchStep)) {
+    return timeline as PersistedTimeline<T>;
+  }
+  // Snapshot steps give their values without replaying anything
+  return { present, ...timelineValues(timeline) };
 }
 
-function useUndoRedoState<T>(initialValue: T): [T, UndoRedoActions<T>] {
+function restoreTimeline<T>(
+  persisted: PersistedTimeline<T>,
+  mode: UndoRedoHistoryMode,
+  maxHistory: number
+): UndoRedoTimeline<T> {
+  if ('past' in persisted) {
+    const { past, present, future } = persisted;
+    return { past: limitHistory(past, maxHistory), present, future };
+  }
+
+  const { history, present, future } = persisted;
+  const past = history.map((value, index) =>
+    recordStep(value, index + 1 < history.length ? history[index + 1] : present, mode)
+  );
+  const upcoming = future.map((value, index) =>
+    recordStep(index === 0 ? present : future[index - 1], value, mode)
+  );
+  return { past: limitHistory(past, maxHistory), present, future: upcoming };
+}
+
+function isStoredPatchStep(value: unknown): boolean {
+  if (typeof value !== 'object' || value === null) return false;
+  const step = value as PatchStep;
+  return step.type === 'patch' && Array.isArray(step.undo) && Array.isArray(step.redo);
+}
+
+function isPersistedTimeline(value: unknown): boolean {
+  if (typeof value !== 'object' || value === null || !('present' in value)) return false;
+  const { past, history, future } = value as Record<string, unknown>;
+  if (!Array.isArray(future)) return false;
+  if (Array.isArray(past)) return past.every(isStoredPatchStep) && future.every(isStoredPatchStep);
+  return Array.isArray(history);
+}
+
+const DEFAULT_PERSISTED_HISTORY = 50;
+const DEFAULT_PERSIST_DELAY = 250;
+
+// Stands in for the storage when the history isn't persisted, since hooks can't be called conditionally
+const unpersisted = createMemoryStorage();
+
+// Input types without native undo; other inputs are edited as text
+const NON_TEXT_INPUTS = new Set([
+  'button',
+  'checkbox',
+  'color',
+  'file',
+  'hidden',
+  'image',
+  'radio',
+  'range',
+  'reset',
+  'submit',
+]);
+
+function hasNativeUndo(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target instanceof HTMLTextAreaElement) return true;
+  if (target instanceof HTMLInputElement) return !NON_TEXT_INPUTS.has(target.type);
+  return target.closest('[contenteditable]:not([contenteditable="false"])') !== null;
+}
+
+function shortcutAction(event: KeyboardEvent): 'undo' | 'redo' | null {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey) return null;
+  const key = event.key.toLowerCase();
+  if (key === 'z') return event.shiftKey ? 'redo' : 'undo';
+  if (key === 'y' && event.ctrlKey && !event.shiftKey) return 'redo';
+  return null;
+}
+
+/**
+ * useUndoRedoState
+ *
+ * State with undo/redo. Every `set` becomes an undo step, unless it is coalesced into the
+ * previous one: sets sharing a `coalesceKey`, or coming within `coalesceWithin` ms of each
+ * other, are merged until `checkpoint()` is called or another kind of change happens. Sets
+ * inside `transaction(fn)` are always recorded as one step.
+ *
+ * `maxHistory` caps the number of undo steps, and `jump(index)` moves anywhere in the
+ * timeline `[...history, state, ...future]`.
+ *
+ * All changes go through one reducer, so they are safe under StrictMode. In `'patch'` mode,
+ * each step stores the structural patches between two values instead of the values, which
+ * suits large objects that are updated immutably; `history` and `future` are then rebuilt
+ * only when read.
+ *
+ * With `persist`, the latest steps are stored through a storage adapter (localStorage by
+ * default) once changes pause for `persist.delay` ms, and restored on the next mount. With `shortcuts`, Ctrl/Cmd+Z undoes and
+ * Ctrl/Cmd+Shift+Z or Ctrl+Y redoes while focus is inside the target element. Text fields
+ * keep their native undo unless `overrideNativeUndo` is set.
+ *
+ * @param initialValue - The initial state
+ * @param options - History mode, history limit, coalescing, persistence and keyboard shortcuts
+ * @returns [state, actions] - Current state, and the undo/redo actions with the history
+ */
+function useUndoRedoState<T>(initialValue: T, options: UndoRedoOptions = {}): [T, UndoRedoActions<T>] {
+  const { persist, shortcuts } = options;
   const initialRef = useRef(initialValue);
-  const [state, setState] = useState<T>(initialValue);
-  const [history, setHistory] = useState<T[]>([]);
-  const [future, setFuture] = useState<T[]>([]);
-
-  const set = useCallback((value: T | ((prev: T) => T)) => {
-    setState(prev => {
-      const newValue = typeof value === 'function' ? (value as (prev: T) => T)(prev) : value;
-      setHistory(h => [...h, prev]);
-      setFuture([]);
-      return newValue;
-    });
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const modeRef = useRef(options.mode ?? 'snapshot');
+
+  const [persisted, setPersisted, , { isHydrated }] = useStorageState<PersistedTimeline<T> | null>(
+    persist?.key ?? '',
+    null,
+    {
+      storage: persist ? persist.storage ?? localStorageAdapter : unpersisted,
+      namespace: persist?.namespace,
+      validate: (value): value is PersistedTimeline<T> => isPersistedTimeline(value),
+    }
+  );
+
+  // A stored history that can be read on mount is restored right away; otherwise once it loads
+  const [timeline, dispatchAction] = useReducer(
+    undoRedoReducer<T>,
+    initialValue,
+    (present): UndoRedoTimeline<T> =>
+      persist && isHydrated && persisted
+        ? restoreTimeline(persisted, modeRef.current, options.maxHistory ?? Infinity)
+        : { past: [], present, future: [] }
+  );
+  const restoredRef = useRef(!persist || isHydrated);
+  const changedRef = useRef(false);
+
+  // Changes made through the actions; a history that loads later doesn't replace them
+  const dispatch = useCallback((action: UndoRedoAction<T>) => {
+    changedRef.current = true;
+    dispatchAction(action);
   }, []);
 
+  const lastSetRef = useRef<LastSet | null>(null);
+  const transactionRef = useRef({ depth: 0, started: false });
+
+  const set = useCallback((value: T | ((prev: T) => T), setOptions: UndoRedoSetOptions = {}) => {
+    const { maxHistory = Infinity, coalesceWithin } = optionsRef.current;
+    const { coalesceKey } = setOptions;
+    const transaction = transactionRef.current;
+
+    // Decided when `set` is called, so the reducer stays pure
+    let merge: boolean;
+    if (transaction.depth > 0) {
+      merge = transaction.started;
+      transaction.started = true;
+    } else {
+      const now = Date.now();
+      const last = lastSetRef.current;
+      merge =
+        last !== null &&
+        last.key === coalesceKey &&
+        (coalesceKey !== undefined || coalesceWithin !== undefined) &&
+        (coalesceWithin === undefined || now - last.time < coalesceWithin);
+      lastSetRef.current = { key: coalesceKey, time: now };
+    }
+
+    dispatch({ type: 'set', value, merge, maxHistory, mode: modeRef.current });
+  }, [dispatch]);
+
   const undo = useCallback(() => {
-    setHistory(h => {
-      if (h.length === 0) return h;
-      setFuture(f => [state, ...f]);
-      const prev = h[h.length - 1];
-      setState(prev);
-      return h.slice(0, -1);
-    });
-  }, [state]);
+    lastSetRef.current = null;
+    dispatch({ type: 'undo' });
+  }, [dispatch]);
 
   const redo = useCallback(() => {
-    setFuture(f => {
-      if (f.length === 0) return f;
-      setHistory(h => [...h, state]);
-      const next = f[0];
-      setState(next);
-      return f.slice(1);
-    });
-  }, [state]);
+    lastSetRef.current = null;
+    dispatch({ type: 'redo' });
+  }, [dispatch]);
+
+  const jump = useCallback((index: number) => {
+    lastSetRef.current = null;
+    dispatch({ type: 'jump', index });
+  }, [dispatch]);
+
+  const checkpoint = useCallback(() => {
+    lastSetRef.current = null;
+  }, []);
+
+  const transaction = useCallback((fn: () => void) => {
+    const current = transactionRef.current;
+    if (current.depth === 0) current.started = false;
+    current.depth += 1;
+    try {
+      fn();
+    } finally {
+      current.depth -= 1;
+      // The next set after the transaction starts a new step
+      if (current.depth === 0) lastSetRef.current = null;
+    }
+  }, []);
 
   const reset = useCallback((newInitialValue?: T) => {
     const value = newInitialValue !== undefined ? newInitialValue : initialRef.current;
     initialRef.current = value;
-    setState(value);
-    setHistory([]);
-    setFuture([]);
-  }, []);
+    lastSetRef.current = null;
+    dispatch({ type: 'reset', value });
+  }, [dispatch]);
+
+  // Restore a history that loaded after mount, unless the state has changed since
+  useEffect(() => {
+    if (restoredRef.current || !isHydrated) return;
+    restoredRef.current = true;
+    if (persisted && !changedRef.current) {
+      const restored = restoreTimeline(persisted, modeRef.current, optionsRef.current.maxHistory ?? Infinity);
+      dispatchAction({ type: 'restore', timeline: restored });
+    }
+  }, [isHydrated, persisted]);
+
+  // Store the latest steps once changes pause, since serializing the history is costly
+  const persistEnabled = persist !== undefined;
+  const persistDelay = persist?.delay ?? DEFAULT_PERSIST_DELAY;
+  const storeTimeline = useMemo(
+    () =>
+      createDebounced((current: UndoRedoTimeline<T>) => {
+        const limit = optionsRef.current.persist?.maxHistory ?? DEFAULT_PERSISTED_HISTORY;
+        setPersisted(persistTimeline(current, limit));
+      }, persistDelay),
+    [setPersisted, persistDelay]
+  );
+
+  useEffect(() => {
+    if (!persistEnabled || !restoredRef.current) return;
+    storeTimeline(timeline);
+  }, [persistEnabled, timeline, storeTimeline]);
+
+  // Store pending changes before the page is left or the component unmounts
+  useEffect(() => {
+    if (!persistEnabled) return;
+    const flush = () => {
+      storeTimeline.flush();
+    };
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [persistEnabled, storeTimeline]);
+
+  const shortcutsTarget = shortcuts?.target;
+  const shortcutsEnabled = shortcuts !== undefined && shortcuts.enabled !== false;
+  useEffect(() => {
+    if (!shortcutsTarget || !shortcutsEnabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const action = shortcutAction(event);
+      if (!action || event.defaultPrevented) return;
+      if (!shortcutsTarget.current?.contains(event.target as Node)) return;
+      if (!optionsRef.current.shortcuts?.overrideNativeUndo && hasNativeUndo(event.target)) return;
+
+      event.preventDefault();
+      if (action === 'undo') {
+        undo();
+      } else {
+        redo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [shortcutsTarget, shortcutsEnabled, undo, redo]);
+
+  // Built on first read, since rebuilding patch history costs a replay of every step
+  const values = useMemo(() => {
+    let cached: ReturnType<typeof timelineValues<T>> | null = null;
+    return () => (cached ??= timelineValues(timeline));
+  }, [timeline]);
 
-  const canUndo = history.length > 0;
-  const canRedo = future.length > 0;
+  const actions = useMemo<UndoRedoActions<T>>(
+    () => ({
+      set,
+      undo,
+      redo,
+      reset,
+      jump,
+      checkpoint,
+      transaction,
+      canUndo: timeline.past.length > 0,
+      canRedo: timeline.future.length > 0,
+      get history() {
+        return values().history;
+      },
+      get future() {
+        return values().future;
+      },
+      index: timeline.past.length,
+    }),
+    [set, undo, redo, reset, jump, checkpoint, transaction, timeline, values]
+  );
 
-  return [state, { set, undo, redo, reset, canUndo, canRedo, history, future }];
+  return [timeline.present, actions];
 }
 
-export default useUndoRedoState; 
\ No newline at end of file
+export default useUndoRedoState;
@@ -1,6 +1,26 @@
 export * from "./hooks/useDebounceValue";
 export * from "./hooks/useEventListenerRef";
+export { default as useEventListenerRef } from "./hooks/useEventListenerRef";
 export * from "./hooks/useDebounceCallback";
+export { default as useDebounceCallback } from "./hooks/useDebounceCallback";
+export * from "./hooks/useThrottleValue";
+export * from "./hooks/useThrottleCallback";
+export { default as useThrottleCallback } from "./hooks/useThrottleCallback";
 export * from "./hooks/useLocalStorage";
+export { default as useLocalStorage } from "./hooks/useLocalStorage";
+export * from "./hooks/useStorageState";
+export { default as useStorageState } from "./hooks/useStorageState";
 export * from "./hooks/useClickOutside";
-export * from "./hooks/useAsync";
\ No newline at end of file
+export { default as useClickOutside } from "./hooks/useClickOutside";
+export * from "./hooks/useDismissableLayer";
+export { default as useDismissableLayer } from "./hooks/useDismissableLayer";
+export * from "./hooks/useFocusTrap";
+export { default as useFocusTrap } from "./hooks/useFocusTrap";
+export * from "./hooks/useAsync";
+export { default as useAsync } from "./hooks/useAsync";
+export * from "./hooks/useAsyncMutation";
+export { default as useAsyncMutation } from "./hooks/useAsyncMutation";
+export * from "./hooks/useSuspenseAsync";
+export { default as useSuspenseAsync } from "./hooks/useSuspenseAsync";
+export * from "./hooks/useInfiniteAsync";
+export { default as useInfiniteAsync } from "./hooks/useInfiniteAsync";
\ No newline at end of file
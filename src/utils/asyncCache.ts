@@ -0,0 +1,390 @@
+/**
+ * asyncCache
+ *
+ * A module-level cache shared by every `useAsync` instance that opts in with a `key`.
+ * Entries hold the last resolved data, deduplicate concurrent requests for the same key,
+ * and are garbage-collected `cacheTime` ms after the last subscriber goes away.
+ */
+
+import { createAbortError } from './retry';
+
+export type CacheKey = string | ((...args: any[]) => string);
+
+export type CacheEvent<T> = { type: 'update'; data: T } | { type: 'invalidate' };
+
+export type CacheListener<T> = (event: CacheEvent<T>) => void;
+
+interface SharedRequest<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  consumers: number;
+  /** Settles `promise` with the entry's data; called when `mutate()` replaces the request */
+  detach: () => void;
+}
+
+interface OptimisticLayer<T> {
+  update: (data: T) => T;
+}
+
+interface CacheEntry<T> {
+  /** Confirmed data; optimistic layers are replayed on top of it */
+  data: T | undefined;
+  hasData: boolean;
+  /** Set when the last request failed; cleared by the next request or an invalidation */
+  error: unknown;
+  hasError: boolean;
+  updatedAt: number;
+  invalidated: boolean;
+  request: SharedRequest<T> | null;
+  optimistic: OptimisticLayer<T>[];
+  listeners: Set<CacheListener<T>>;
+  cacheTime: number;
+  gcTimer: ReturnType<typeof setTimeout> | null;
+}
+
+export const DEFAULT_CACHE_TIME = 5 * 60 * 1000;
+
+const cache = new Map<string, CacheEntry<any>>();
+
+function getEntry<T>(key: string): CacheEntry<T> {
+  let entry = cache.get(key);
+  if (!entry) {
+    entry = {
+      data: undefined,
+      hasData: false,
+      error: undefined,
+      hasError: false,
+      updatedAt: 0,
+      invalidated: false,
+      request: null,
+      optimistic: [],
+      listeners: new Set(),
+      cacheTime: DEFAULT_CACHE_TIME,
+      gcTimer: null,
+    };
+    cache.set(key, entry);
+  }
+  return entry;
+}
+
+function cancelGc(entry: CacheEntry<any>) {
+  if (entry.gcTimer) {
+    clearTimeout(entry.gcTimer);
+    entry.gcTimer = null;
+  }
+}
+
+// Drop the entry once nothing uses it for `cacheTime` ms
+function scheduleGc(key: string, entry: CacheEntry<any>) {
+  cancelGc(entry);
+  if (entry.listeners.size > 0 || entry.request || entry.cacheTime === Infinity) return;
+
+  entry.gcTimer = setTimeout(() => {
+    if (cache.get(key) === entry) {
+      cache.delete(key);
+    }
+  }, entry.cacheTime);
+}
+
+// The data subscribers see: the confirmed data with pending optimistic updates applied
+function getVisibleData<T>(entry: CacheEntry<T>): T {
+  return entry.optimistic.reduce((data, layer) => layer.update(data), entry.data as T);
+}
+
+function notifyUpdate<T>(entry: CacheEntry<T>) {
+  const data = getVisibleData(entry);
+  entry.listeners.forEach(listener => listener({ type: 'update', data }));
+}
+
+function setEntryData<T>(key: string, entry: CacheEntry<T>, data: T) {
+  entry.data = data;
+  entry.hasData = true;
+  entry.error = undefined;
+  entry.hasError = false;
+  entry.updatedAt = Date.now();
+  entry.invalidated = false;
+  notifyUpdate(entry);
+  scheduleGc(key, entry);
+}
+
+/**
+ * Builds the cache key for a call. A function key is called with the arguments;
+ * a string key is suffixed with the serialized arguments when there are any.
+ */
+export function getCacheKey(key: CacheKey, args: unknown[]): string {
+  if (typeof key === 'function') {
+    return key(...args);
+  }
+  return args.length > 0 ? `${key}:${JSON.stringify(args)}` : key;
+}
+
+/**
+ * Returns the cached data for a key, if any, and whether it is older than `staleTime`.
+ */
+export function readCache<T>(
+  key: string,
+  staleTime: number
+): { data: T; stale: boolean } | undefined {
+  const entry = cache.get(key) as CacheEntry<T> | undefined;
+  if (!entry || !entry.hasData) return undefined;
+
+  const stale = entry.invalidated || Date.now() - entry.updatedAt >= staleTime;
+  return { data: getVisibleData(entry), stale };
+}
+
+/**
+ * Snapshot of a key for Suspense: its data, the error of its last request, and the
+ * promise of the request in flight. The promise is the same object until the request settles.
+ */
+export function readResource<T>(key: string): {
+  data: T | undefined;
+  hasData: boolean;
+  error: unknown;
+  hasError: boolean;
+  promise: Promise<T> | null;
+} {
+  const entry = cache.get(key) as CacheEntry<T> | undefined;
+  if (!entry) {
+    return { data: undefined, hasData: false, error: undefined, hasError: false, promise: null };
+  }
+  return {
+    data: entry.hasData ? getVisibleData(entry) : undefined,
+    hasData: entry.hasData,
+    error: entry.error,
+    hasError: entry.hasError,
+    promise: entry.request ? entry.request.promise : null,
+  };
+}
+
+/**
+ * Starts the request for a key unless one is already in flight, and returns its promise.
+ * Unlike `fetchShared`, the request has no caller that can abort it.
+ */
+export function preload<T>(
+  key: string,
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  cacheTime: number = DEFAULT_CACHE_TIME
+): Promise<T> {
+  const entry = getEntry<T>(key);
+  entry.cacheTime = cacheTime;
+  cancelGc(entry);
+
+  if (!entry.request) {
+    // A permanent consumer keeps fetchShared callers from aborting it
+    startRequest(key, entry, fetcher).consumers += 1;
+  }
+  return (entry.request as SharedRequest<T>).promise;
+}
+
+/**
+ * Subscribes to updates and invalidations of a key. The entry is kept alive while subscribed.
+ */
+export function subscribe<T>(
+  key: string,
+  listener: CacheListener<T>,
+  cacheTime: number = DEFAULT_CACHE_TIME
+): () => void {
+  const entry = getEntry<T>(key);
+  entry.cacheTime = cacheTime;
+  entry.listeners.add(listener);
+  cancelGc(entry);
+
+  return () => {
+    entry.listeners.delete(listener);
+    scheduleGc(key, entry);
+  };
+}
+
+// Starts the shared request for a key and records its outcome in the entry
+function startRequest<T>(
+  key: string,
+  entry: CacheEntry<T>,
+  fetcher: (signal: AbortSignal) => Promise<T>
+): SharedRequest<T> {
+  const controller = new AbortController();
+  let detach!: () => void;
+  const detached = new Promise<void>(resolve => {
+    detach = resolve;
+  });
+  const request = fetcher(controller.signal).then(
+    data => {
+      // A mutate() or a newer request may have replaced this one meanwhile
+      if (entry.request === shared) {
+        entry.request = null;
+        setEntryData(key, entry, data);
+      }
+      return data;
+    },
+    error => {
+      if (entry.request === shared) {
+        entry.request = null;
+        entry.error = error;
+        entry.hasError = true;
+        scheduleGc(key, entry);
+      }
+      throw error;
+    }
+  );
+  const shared: SharedRequest<T> = {
+    controller,
+    consumers: 0,
+    detach,
+    // Once detached, callers get the data that replaced the request rather than its result
+    promise: Promise.race([request, detached.then(() => getVisibleData(entry))]),
+  };
+  // Every consumer may abort before the request settles; keep its rejection handled
+  shared.promise.catch(() => {});
+
+  entry.request = shared;
+  entry.error = undefined;
+  entry.hasError = false;
+  return shared;
+}
+
+/**
+ * Runs `fetcher` for a key, or joins the request already in flight for it.
+ *
+ * The shared request gets its own `AbortSignal`, which is only aborted once every caller
+ * waiting on it has aborted its own `signal`. A caller that aborts is rejected with an `AbortError`.
+ */
+export function fetchShared<T>(
+  key: string,
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  signal: AbortSignal,
+  cacheTime: number = DEFAULT_CACHE_TIME
+): Promise<T> {
+  const entry = getEntry<T>(key);
+  entry.cacheTime = cacheTime;
+  cancelGc(entry);
+
+  const current = entry.request ?? startRequest(key, entry, fetcher);
+  current.consumers += 1;
+
+  return new Promise<T>((resolve, reject) => {
+    let settled = false;
+
+    const onAbort = () => {
+      if (settled) return;
+      settled = true;
+      current.consumers -= 1;
+      if (current.consumers === 0) {
+        current.controller.abort();
+        if (entry.request === current) {
+          entry.request = null;
+          scheduleGc(key, entry);
+        }
+      }
+      reject(createAbortError());
+    };
+
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    current.promise.then(
+      data => {
+        if (settled) return;
+        settled = true;
+        signal.removeEventListener('abort', onAbort);
+        resolve(data);
+      },
+      error => {
+        if (settled) return;
+        settled = true;
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * invalidate
+ *
+ * Marks cached entries as stale so the next `execute` refetches them. Mounted `useAsync`
+ * instances showing an invalidated key revalidate right away.
+ *
+ * @param key - A cache key, which also matches every key built from it with arguments
+ *   (`'user'` matches `'user:[1]'`), or a predicate over cache keys
+ */
+export function invalidate(key: string | ((cacheKey: string) => boolean)): void {
+  const matches =
+    typeof key === 'function'
+      ? key
+      : (cacheKey: string) => cacheKey === key || cacheKey.startsWith(`${key}:`);
+
+  cache.forEach((entry, cacheKey) => {
+    if (!matches(cacheKey)) return;
+    entry.invalidated = true;
+    entry.error = undefined;
+    entry.hasError = false;
+    entry.listeners.forEach(listener => listener({ type: 'invalidate' }));
+  });
+}
+
+/**
+ * mutate
+ *
+ * Writes data into the cache and pushes it to every mounted `useAsync` instance showing that key.
+ * A request in flight for the key is aborted, and callers waiting on it get the new data instead.
+ *
+ * @param key - The exact cache key
+ * @param data - The new data, or an updater receiving the cached data
+ */
+export function mutate<T>(key: string, data: T | ((prev: T | undefined) => T)): void {
+  const entry = getEntry<T>(key);
+  const next =
+    typeof data === 'function' ? (data as (prev: T | undefined) => T)(entry.data) : data;
+
+  const detached = entry.request;
+  entry.request = null;
+  setEntryData(key, entry, next);
+
+  if (detached) {
+    // Detach first, so waiting callers get the new data rather than the abort
+    detached.detach();
+    detached.controller.abort();
+  }
+}
+
+/**
+ * Layers an optimistic update over the cached data for a key and pushes the result to subscribers.
+ *
+ * `update` is replayed whenever the confirmed data changes, so it must be a pure function of its input.
+ * `commit` folds it into the confirmed data; `rollback` drops it, leaving other pending updates applied.
+ * Returns `null` when the key has no data to update yet.
+ */
+export function applyOptimistic<T>(
+  key: string,
+  update: (data: T) => T
+): { commit: () => void; rollback: () => void } | null {
+  const entry = cache.get(key) as CacheEntry<T> | undefined;
+  if (!entry || !entry.hasData) return null;
+
+  const layer: OptimisticLayer<T> = { update };
+  entry.optimistic.push(layer);
+  notifyUpdate(entry);
+
+  const remove = () => {
+    const index = entry.optimistic.indexOf(layer);
+    if (index === -1) return false;
+    entry.optimistic.splice(index, 1);
+    return true;
+  };
+
+  return {
+    commit: () => {
+      if (remove()) {
+        entry.data = update(entry.data as T);
+        notifyUpdate(entry);
+      }
+    },
+    rollback: () => {
+      if (remove()) {
+        notifyUpdate(entry);
+      }
+    },
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * asyncContext
+ *
+ * Hands an `AsyncContext` to async functions that ask for one through `withSignal`. The context
+ * is given to a factory rather than appended to the arguments, so it can never end up in a
+ * parameter the caller left out.
+ */
+
+/**
+ * Given to the factory passed to `withSignal` for each call. Forward `signal` to `fetch` (or
+ * check it) so cancellation reaches the request.
+ */
+export interface AsyncContext {
+  signal: AbortSignal;
+}
+
+type AsyncFunction = (...args: any[]) => Promise<any>;
+
+type AsyncFactory<F extends AsyncFunction> = (context: AsyncContext) => F;
+
+const FACTORY = Symbol('asyncContextFactory');
+
+/**
+ * Wraps a factory that receives the `AsyncContext` and returns the async function to call.
+ * Hooks call the factory with a fresh context for every call; called directly, the function
+ * gets a signal that is never aborted.
+ */
+export function withSignal<F extends AsyncFunction>(factory: AsyncFactory<F>): F {
+  const fn = (...args: Parameters<F>) => factory({ signal: new AbortController().signal })(...args);
+  return Object.assign(fn, { [FACTORY]: factory }) as unknown as F;
+}
+
+/** Calls `fn` with `args`, giving it `context` if it was created with `withSignal` */
+export function callWithContext<F extends AsyncFunction>(
+  fn: F,
+  args: Parameters<F>,
+  context: AsyncContext
+): ReturnType<F> {
+  const factory = (fn as F & { [FACTORY]?: AsyncFactory<F> })[FACTORY];
+  return (factory ? factory(context)(...args) : fn(...args)) as ReturnType<F>;
+}
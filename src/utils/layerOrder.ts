@@ -0,0 +1,53 @@
+import { useEffect, useLayoutEffect, useState } from 'react';
+
+/**
+ * layerOrder
+ *
+ * Orders stacked layers, such as dismissable layers and focus traps, by when they open. Effects
+ * run children first, so layers that open in the same commit are ordered by when they mounted
+ * instead: a parent mounts before the layers nested in it, and stays below them.
+ */
+
+export interface LayerOrder {
+  /** The commit the layer last opened in */
+  opened: number;
+  /** When the layer mounted */
+  mounted: number;
+}
+
+let mountSequence = 0;
+let commitSequence = 0;
+// Whether layers are opening in the current commit; cleared once its passive effects run
+let commitOpen = false;
+
+/** Sorts layers bottom first */
+export function compareLayerOrder(a: LayerOrder, b: LayerOrder): number {
+  return a.opened - b.opened || a.mounted - b.mounted;
+}
+
+/**
+ * Tracks where a layer goes in its stack. The order is updated by the time the caller's own
+ * effects run on `enabled`.
+ *
+ * @param enabled - Whether the layer is open
+ * @returns The layer's order, to compare with `compareLayerOrder`
+ */
+export function useLayerOrder(enabled: boolean): LayerOrder {
+  const [order] = useState<LayerOrder>(() => ({ opened: 0, mounted: ++mountSequence }));
+
+  // Layout effects of a commit all run before its passive effects, which run before the next commit
+  useLayoutEffect(() => {
+    if (!enabled) return;
+    if (!commitOpen) {
+      commitSequence++;
+      commitOpen = true;
+    }
+    order.opened = commitSequence;
+  }, [enabled, order]);
+
+  useEffect(() => {
+    if (enabled) commitOpen = false;
+  }, [enabled]);
+
+  return order;
+}
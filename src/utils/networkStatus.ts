@@ -0,0 +1,38 @@
+/**
+ * networkStatus
+ *
+ * One shared subscription to the browser's `online` and `offline` events. Listeners are
+ * called with the new status; the window listeners are added for the first subscriber and
+ * removed with the last.
+ */
+
+export type NetworkStatusListener = (online: boolean) => void;
+
+const listeners = new Set<NetworkStatusListener>();
+
+const handleOnline = () => listeners.forEach(listener => listener(true));
+const handleOffline = () => listeners.forEach(listener => listener(false));
+
+/** Whether the browser is online; `true` on the server */
+export function isOnline(): boolean {
+  return typeof navigator !== 'undefined' ? navigator.onLine : true;
+}
+
+/**
+ * Calls `listener` whenever the browser goes online or offline. Returns the unsubscribe function.
+ */
+export function subscribeToNetworkStatus(listener: NetworkStatusListener): () => void {
+  if (typeof window === 'undefined') return () => {};
+
+  if (listeners.size === 0) {
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+  }
+  listeners.add(listener);
+
+  return () => {
+    if (!listeners.delete(listener) || listeners.size > 0) return;
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * retry
+ *
+ * Helpers for retrying a failing async call with exponential backoff and jitter,
+ * stopping as soon as the given `AbortSignal` is aborted.
+ */
+
+/** A retry count, or a predicate deciding from the failure count and error whether to retry */
+export type RetryOption = number | boolean | ((failureCount: number, error: Error) => boolean);
+
+/** A base delay in ms, or a function returning the delay before a given retry */
+export type RetryDelayOption = number | ((retryAttempt: number, error: Error) => number);
+
+export interface RetryOptions {
+  retry?: RetryOption;
+  retryDelay?: RetryDelayOption;
+  signal: AbortSignal;
+  /** Called before each attempt with its 1-based number */
+  onAttempt?: (attempt: number) => void;
+}
+
+export const DEFAULT_RETRY_DELAY = 1000;
+export const MAX_RETRY_DELAY = 30000;
+
+export function createAbortError(): Error {
+  const error = new Error('The operation was aborted.');
+  error.name = 'AbortError';
+  return error;
+}
+
+export function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Waits `ms` milliseconds, rejecting with an `AbortError` as soon as `signal` aborts.
+ */
+export function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function shouldRetry(retry: RetryOption, failureCount: number, error: Error): boolean {
+  if (typeof retry === 'function') return retry(failureCount, error);
+  if (typeof retry === 'boolean') return retry;
+  return failureCount <= retry;
+}
+
+/**
+ * Delay before the nth retry. A numeric option is the base of an exponential backoff
+ * (base, 2x base, 4x base, … capped at 30s) with "equal jitter": a random point in the
+ * upper half of the window, so simultaneous failures don't retry in lockstep.
+ */
+export function getRetryDelay(
+  retryDelay: RetryDelayOption,
+  retryAttempt: number,
+  error: Error
+): number {
+  if (typeof retryDelay === 'function') return retryDelay(retryAttempt, error);
+
+  const backoff = Math.min(retryDelay * 2 ** (retryAttempt - 1), MAX_RETRY_DELAY);
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
+/**
+ * Calls `fn` until it resolves, the retry policy gives up, or `signal` aborts.
+ * Aborted attempts are never retried.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  { retry = 0, retryDelay = DEFAULT_RETRY_DELAY, signal, onAttempt }: RetryOptions
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    onAttempt?.(attempt);
+    try {
+      return await fn();
+    } catch (error) {
+      const errorObj = toError(error);
+      if (signal.aborted || errorObj.name === 'AbortError') throw error;
+      if (!shouldRetry(retry, attempt, errorObj)) throw error;
+
+      await sleep(getRetryDelay(retryDelay, attempt, errorObj), signal);
+    }
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * Called when a key changes outside this page, e.g. in another tab. `key` is null when
+ * the whole storage was cleared.
+ */
+export type StorageChangeListener = (key: string | null, newValue: string | null) => void;
+
+/** A storage backend with synchronous access, such as localStorage */
+export interface SyncStorageAdapter {
+  /** Used in warnings, e.g. `Error setting localStorage key "theme"` */
+  name?: string;
+  async?: false;
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  /** Lists the stored keys; needed to clear a namespace */
+  keys?(): string[];
+  /** Reports changes made outside this page; same-page changes are shared by the hooks */
+  subscribe?(listener: StorageChangeListener): () => void;
+}
+
+/** A storage backend with asynchronous access, such as IndexedDB */
+export interface AsyncStorageAdapter {
+  name?: string;
+  async: true;
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  keys?(): Promise<string[]>;
+  subscribe?(listener: StorageChangeListener): () => void;
+}
+
+export type StorageAdapter = SyncStorageAdapter | AsyncStorageAdapter;
+
+// Adapts a Web Storage area; it is looked up on every call so the adapter is safe to create during SSR
+function createWebStorageAdapter(name: string, getStorage: () => Storage | null): SyncStorageAdapter {
+  return {
+    name,
+    getItem: key => {
+      const storage = getStorage();
+      return storage ? storage.getItem(key) : null;
+    },
+    setItem: (key, value) => {
+      getStorage()?.setItem(key, value);
+    },
+    removeItem: key => {
+      getStorage()?.removeItem(key);
+    },
+    keys: () => {
+      const storage = getStorage();
+      if (!storage) return [];
+      return Array.from({ length: storage.length }, (_, index) => storage.key(index)).filter(
+        (key): key is string => key !== null
+      );
+    },
+    subscribe: listener => {
+      if (typeof window === 'undefined') return () => {};
+
+      const handleStorage = (e: StorageEvent) => {
+        if (e.storageArea && e.storageArea !== getStorage()) return;
+        listener(e.key, e.newValue);
+      };
+      window.addEventListener('storage', handleStorage);
+      return () => window.removeEventListener('storage', handleStorage);
+    },
+  };
+}
+
+/** Stores values in `window.localStorage`, synced across tabs */
+export const localStorageAdapter: SyncStorageAdapter = createWebStorageAdapter('localStorage', () =>
+  typeof window !== 'undefined' ? window.localStorage : null
+);
+
+/** Stores values in `window.sessionStorage`, which lasts as long as the tab */
+export const sessionStorageAdapter: SyncStorageAdapter = createWebStorageAdapter('sessionStorage', () =>
+  typeof window !== 'undefined' ? window.sessionStorage : null
+);
+
+/**
+ * Creates an adapter that keeps values in memory, e.g. for tests or as a fallback when
+ * Web Storage is unavailable. Values are shared by every hook using the same adapter.
+ */
+export function createMemoryStorage(initialValues: Record<string, string> = {}): SyncStorageAdapter {
+  const values = new Map(Object.entries(initialValues));
+  return {
+    name: 'memory storage',
+    getItem: key => (values.has(key) ? (values.get(key) as string) : null),
+    setItem: (key, value) => {
+      values.set(key, value);
+    },
+    removeItem: key => {
+      values.delete(key);
+    },
+    keys: () => [...values.keys()],
+  };
+}
+
+export interface IndexedDBStorageOptions {
+  /** Database name (default: `'usely'`) */
+  databaseName?: string;
+  /** Object store name (default: `'storage'`) */
+  storeName?: string;
+}
+
+/**
+ * Creates an adapter that stores values in an IndexedDB object store. The database is
+ * opened on first use and created if it doesn't exist.
+ */
+export function createIndexedDBStorage(options: IndexedDBStorageOptions = {}): AsyncStorageAdapter {
+  const { databaseName = 'usely', storeName = 'storage' } = options;
+  let database: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!database) {
+      database = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+        const request = indexedDB.open(databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Let a later call try again after a failure
+      database.catch(() => {
+        database = null;
+      });
+    }
+    return database;
+  };
+
+  // Runs one request in its own transaction and resolves once the transaction completes
+  const run = <R>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<R>) =>
+    openDatabase().then(
+      db =>
+        new Promise<R>((resolve, reject) => {
+          const transaction = db.transaction(storeName, mode);
+          const request = operation(transaction.objectStore(storeName));
+          transaction.oncomplete = () => resolve(request.result);
+          transaction.onerror = () => reject(transaction.error ?? request.error);
+          transaction.onabort = () => reject(transaction.error ?? request.error);
+        })
+    );
+
+  return {
+    name: 'IndexedDB',
+    async: true,
+    getItem: key =>
+      run('readonly', store => store.get(key)).then(value => (typeof value === 'string' ? value : null)),
+    setItem: (key, value) => run('readwrite', store => store.put(value, key)).then(() => {}),
+    removeItem: key => run('readwrite', store => store.delete(key)).then(() => {}),
+    keys: () =>
+      run('readonly', store => store.getAllKeys()).then(keys =>
+        keys.filter((key): key is string => typeof key === 'string')
+      ),
+  };
+}
+
+export interface EncryptedStorageOptions {
+  /** An AES-GCM key, e.g. from `crypto.subtle.importKey` or `crypto.subtle.deriveKey` */
+  key: CryptoKey | Promise<CryptoKey>;
+  /** Where the encrypted values are stored (default: `localStorageAdapter`) */
+  storage?: StorageAdapter;
+}
+
+// Size of the random AES-GCM nonce stored in front of each value
+const IV_LENGTH = 12;
+
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''));
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+/**
+ * Creates an adapter that encrypts values with AES-GCM (Web Crypto) before passing them to
+ * another adapter, so they can't be read in devtools. Each value is stored as base64 of a
+ * random nonce followed by the ciphertext. Keys are stored as they are.
+ */
+export function createEncryptedStorage(options: EncryptedStorageOptions): AsyncStorageAdapter {
+  const { key, storage = localStorageAdapter } = options;
+
+  const encrypt = async (value: string): Promise<string> => {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const encrypted = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      await key,
+      new TextEncoder().encode(value)
+    );
+    const bytes = new Uint8Array(IV_LENGTH + encrypted.byteLength);
+    bytes.set(iv);
+    bytes.set(new Uint8Array(encrypted), IV_LENGTH);
+    return toBase64(bytes);
+  };
+
+  const decrypt = async (stored: string): Promise<string> => {
+    const bytes = fromBase64(stored);
+    const decrypted = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: bytes.subarray(0, IV_LENGTH) },
+      await key,
+      bytes.subarray(IV_LENGTH)
+    );
+    return new TextDecoder().decode(decrypted);
+  };
+
+  // Encrypting is async; each key's writes are chained so they land in the order they were made
+  const writes = new Map<string, Promise<void>>();
+  const queueWrite = (itemKey: string, write: () => Promise<void>): Promise<void> => {
+    const previous = writes.get(itemKey);
+    const next = previous ? previous.catch(() => {}).then(write) : write();
+    writes.set(itemKey, next);
+    const clear = () => {
+      if (writes.get(itemKey) === next) writes.delete(itemKey);
+    };
+    next.then(clear, clear);
+    return next;
+  };
+
+  return {
+    name: `encrypted ${storage.name ?? 'storage'}`,
+    async: true,
+    getItem: async itemKey => {
+      // Read what the pending writes leave behind
+      await writes.get(itemKey)?.catch(() => {});
+      const stored = await storage.getItem(itemKey);
+      return stored === null ? null : decrypt(stored);
+    },
+    setItem: (itemKey, value) =>
+      queueWrite(itemKey, async () => {
+        await storage.setItem(itemKey, await encrypt(value));
+      }),
+    removeItem: itemKey =>
+      queueWrite(itemKey, async () => {
+        await storage.removeItem(itemKey);
+      }),
+    keys: storage.keys && (async () => storage.keys!()),
+    subscribe:
+      storage.subscribe &&
+      (listener => {
+        // Decrypting is async; the queue keeps changes in the order they happened
+        let queue = Promise.resolve();
+        return storage.subscribe!((changedKey, newValue) => {
+          queue = queue
+            .then(() => (newValue === null ? null : decrypt(newValue)))
+            .then(
+              decrypted => listener(changedKey, decrypted),
+              // A value that can't be decrypted is ignored here; it fails again when read
+              () => {}
+            );
+        });
+      }),
+  };
+}
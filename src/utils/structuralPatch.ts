@@ -0,0 +1,104 @@
+/**
+ * structuralPatch
+ *
+ * Diffs two versions of an immutable value into a list of patches, and applies patches to a
+ * value without mutating it. Plain objects and arrays are compared key by key; anything else
+ * (primitives, dates, maps, class instances) is replaced as a whole. Unchanged subtrees are
+ * skipped by reference, so diffing values updated immutably only walks the changed paths.
+ */
+
+export type PatchPath = Array<string | number>;
+
+export type Patch = { op: 'set'; path: PatchPath; value: unknown } | { op: 'delete'; path: PatchPath };
+
+type Container = Record<string | number, unknown>;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+function diffInto(from: unknown, to: unknown, path: PatchPath, patches: Patch[]) {
+  if (Object.is(from, to)) return;
+
+  if (Array.isArray(from) && Array.isArray(to)) {
+    const common = Math.min(from.length, to.length);
+    for (let index = 0; index < common; index++) {
+      diffInto(from[index], to[index], [...path, index], patches);
+    }
+    for (let index = common; index < to.length; index++) {
+      patches.push({ op: 'set', path: [...path, index], value: to[index] });
+    }
+    // From the end, so every delete removes the current last item
+    for (let index = from.length - 1; index >= common; index--) {
+      patches.push({ op: 'delete', path: [...path, index] });
+    }
+    return;
+  }
+
+  if (isPlainObject(from) && isPlainObject(to)) {
+    for (const key of Object.keys(to)) {
+      if (key in from) {
+        diffInto(from[key], to[key], [...path, key], patches);
+      } else {
+        patches.push({ op: 'set', path: [...path, key], value: to[key] });
+      }
+    }
+    for (const key of Object.keys(from)) {
+      if (!(key in to)) patches.push({ op: 'delete', path: [...path, key] });
+    }
+    return;
+  }
+
+  patches.push({ op: 'set', path, value: to });
+}
+
+/** Returns the patches that turn `from` into `to` */
+export function diff(from: unknown, to: unknown): Patch[] {
+  const patches: Patch[] = [];
+  diffInto(from, to, [], patches);
+  return patches;
+}
+
+/**
+ * Applies patches from `diff` to `base`, copying the objects and arrays along the changed
+ * paths. Everything else is shared with `base`, which is left untouched.
+ */
+export function applyPatches<T>(base: T, patches: Patch[]): T {
+  // Containers copied during this call, which can be written to directly
+  const copies = new WeakSet<object>();
+  const copyOf = (value: unknown): Container => {
+    if (typeof value === 'object' && value !== null && copies.has(value)) return value as Container;
+    const copy = (Array.isArray(value) ? [...value] : { ...(value as object) }) as Container;
+    copies.add(copy);
+    return copy;
+  };
+
+  let root: unknown = base;
+  for (const patch of patches) {
+    const { path } = patch;
+    if (path.length === 0) {
+      root = patch.op === 'set' ? patch.value : undefined;
+      continue;
+    }
+
+    root = copyOf(root);
+    let parent = root as Container;
+    for (const key of path.slice(0, -1)) {
+      const child = copyOf(parent[key]);
+      parent[key] = child;
+      parent = child;
+    }
+
+    const last = path[path.length - 1];
+    if (patch.op === 'set') {
+      parent[last] = patch.value;
+    } else if (Array.isArray(parent)) {
+      parent.splice(last as number, 1);
+    } else {
+      delete parent[last];
+    }
+  }
+  return root as T;
+}
@@ -0,0 +1,216 @@
+/**
+ * timing
+ *
+ * Rate-limits calls to a function, with the same semantics as lodash's `debounce` and
+ * `throttle`: calls are collected while they keep coming, and the function runs with the latest
+ * arguments on the leading and/or trailing edge. Throttling can also follow animation frames
+ * instead of a fixed wait. The returned function can cancel or flush the pending call.
+ */
+
+export interface DebounceOptions {
+  /** Call on the first call of a burst (default: false) */
+  leading?: boolean;
+  /** Call after the burst, with the latest arguments (default: true) */
+  trailing?: boolean;
+  /** Longest time in ms a call can be delayed while calls keep coming (default: no limit) */
+  maxWait?: number;
+}
+
+export interface ThrottleOptions {
+  /** Call on the first call, without waiting (default: true) */
+  leading?: boolean;
+  /** Call at the end of the wait, with the latest arguments (default: true) */
+  trailing?: boolean;
+}
+
+/** A wait in ms, or `'frame'` to run at most once per animation frame */
+export type ThrottleWait = number | 'frame';
+
+/**
+ * A rate-limited function. Calling it returns the result of the last time the wrapped function
+ * ran, or `undefined` if it hasn't run yet.
+ */
+export interface DebouncedFunction<T extends (...args: any[]) => any> {
+  (...args: Parameters<T>): ReturnType<T> | undefined;
+  /** Drops the pending call */
+  cancel: () => void;
+  /** Runs the pending call now, and returns the latest result */
+  flush: () => ReturnType<T> | undefined;
+  /** Whether a call is waiting to run */
+  isPending: () => boolean;
+}
+
+/**
+ * Returns a debounced `fn`, which runs once calls have stopped coming for `wait` ms.
+ */
+export function createDebounced<T extends (...args: any[]) => any>(
+  fn: T,
+  wait: number,
+  { leading = false, trailing = true, maxWait }: DebounceOptions = {}
+): DebouncedFunction<T> {
+  const maxing = maxWait !== undefined;
+  const maxDelay = Math.max(maxWait ?? 0, wait);
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  // Arguments of the latest call that hasn't run yet
+  let pendingArgs: Parameters<T> | undefined;
+  let lastCallTime: number | undefined;
+  let lastInvokeTime = 0;
+  let result: ReturnType<T> | undefined;
+
+  const invoke = (time: number) => {
+    const args = pendingArgs as Parameters<T>;
+    pendingArgs = undefined;
+    lastInvokeTime = time;
+    result = fn(...args);
+    return result;
+  };
+
+  const shouldInvoke = (time: number) => {
+    if (lastCallTime === undefined) return true;
+    const sinceLastCall = time - lastCallTime;
+    // A negative time means the system clock went back
+    return sinceLastCall >= wait || sinceLastCall < 0 || (maxing && time - lastInvokeTime >= maxDelay);
+  };
+
+  const remainingWait = (time: number) => {
+    const waiting = wait - (time - (lastCallTime as number));
+    return maxing ? Math.min(waiting, maxDelay - (time - lastInvokeTime)) : waiting;
+  };
+
+  const trailingEdge = (time: number) => {
+    timer = undefined;
+    // Only run if there were calls after the leading edge
+    if (trailing && pendingArgs) return invoke(time);
+    pendingArgs = undefined;
+    return result;
+  };
+
+  const timerExpired = () => {
+    const time = Date.now();
+    if (shouldInvoke(time)) {
+      trailingEdge(time);
+    } else {
+      timer = setTimeout(timerExpired, remainingWait(time));
+    }
+  };
+
+  const leadingEdge = (time: number) => {
+    lastInvokeTime = time;
+    timer = setTimeout(timerExpired, wait);
+    return leading ? invoke(time) : result;
+  };
+
+  const debounced = (...args: Parameters<T>) => {
+    const time = Date.now();
+    const isInvoking = shouldInvoke(time);
+    pendingArgs = args;
+    lastCallTime = time;
+
+    if (isInvoking) {
+      if (timer === undefined) return leadingEdge(time);
+      if (maxing) {
+        // maxWait has passed during a burst: run now, and keep waiting for the end of the burst
+        clearTimeout(timer);
+        timer = setTimeout(timerExpired, wait);
+        return invoke(time);
+      }
+    }
+    if (timer === undefined) timer = setTimeout(timerExpired, wait);
+    return result;
+  };
+
+  debounced.cancel = () => {
+    if (timer !== undefined) clearTimeout(timer);
+    lastInvokeTime = 0;
+    pendingArgs = lastCallTime = timer = undefined;
+  };
+
+  debounced.flush = () => {
+    if (timer === undefined) return result;
+    clearTimeout(timer);
+    return trailingEdge(Date.now());
+  };
+
+  debounced.isPending = () => timer !== undefined && trailing && pendingArgs !== undefined;
+
+  return debounced;
+}
+
+/**
+ * Returns a throttled `fn`, which runs at most once every `wait` ms while calls keep coming.
+ */
+export function createThrottled<T extends (...args: any[]) => any>(
+  fn: T,
+  wait: ThrottleWait,
+  { leading = true, trailing = true }: ThrottleOptions = {}
+): DebouncedFunction<T> {
+  if (wait === 'frame') return createFrameThrottled(fn, { leading, trailing });
+  // As in lodash, a throttle is a debounce that can't be postponed for longer than its wait
+  return createDebounced(fn, wait, { leading, trailing, maxWait: wait });
+}
+
+// Animation frames where available, with a ~60 Hz timer as the fallback, e.g. on the server
+const requestFrame = (callback: () => void): (() => void) => {
+  if (typeof requestAnimationFrame === 'function') {
+    const frame = requestAnimationFrame(callback);
+    return () => cancelAnimationFrame(frame);
+  }
+  const timer = setTimeout(callback, 16);
+  return () => clearTimeout(timer);
+};
+
+function createFrameThrottled<T extends (...args: any[]) => any>(
+  fn: T,
+  { leading, trailing }: Required<ThrottleOptions>
+): DebouncedFunction<T> {
+  // Cancels the requested frame; set while a frame is waiting
+  let cancelFrame: (() => void) | undefined;
+  let pendingArgs: Parameters<T> | undefined;
+  let result: ReturnType<T> | undefined;
+
+  const invoke = () => {
+    const args = pendingArgs as Parameters<T>;
+    pendingArgs = undefined;
+    result = fn(...args);
+    return result;
+  };
+
+  const frameExpired = () => {
+    cancelFrame = undefined;
+    if (trailing && pendingArgs) {
+      invoke();
+      // Wait out the next frame too, so calls right after this one don't run again at once
+      cancelFrame = requestFrame(frameExpired);
+    } else {
+      pendingArgs = undefined;
+    }
+  };
+
+  const throttled = (...args: Parameters<T>) => {
+    pendingArgs = args;
+    if (cancelFrame === undefined) {
+      cancelFrame = requestFrame(frameExpired);
+      if (leading) return invoke();
+    }
+    return result;
+  };
+
+  throttled.cancel = () => {
+    cancelFrame?.();
+    pendingArgs = cancelFrame = undefined;
+  };
+
+  throttled.flush = () => {
+    if (cancelFrame === undefined) return result;
+    cancelFrame();
+    cancelFrame = undefined;
+    if (trailing && pendingArgs) return invoke();
+    pendingArgs = undefined;
+    return result;
+  };
+
+  throttled.isPending = () => cancelFrame !== undefined && trailing && pendingArgs !== undefined;
+
+  return throttled;
+}